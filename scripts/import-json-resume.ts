@@ -0,0 +1,80 @@
+/**
+ * Converts a JSON Resume file (https://jsonresume.org/schema) into a resume
+ * data module.
+ *
+ * Usage: bun scripts/import-json-resume.ts <resume.json> [output.tsx]
+ *
+ * Without an output path the module is printed to stdout. Name the output
+ * `src/data/<slug>-resume-data.tsx` to publish it as a variant. Items missing
+ * a field the resume needs, such as an education start date, are skipped and
+ * listed on stderr. Problems `bun validate:data` would report, such as a
+ * missing location, are listed as well, and the module is still written so
+ * they can be fixed in it.
+ */
+import { readFileSync, writeFileSync } from "node:fs";
+import {
+  importJsonResume,
+  type JsonResume,
+  type JsonResumeImport,
+} from "@/lib/json-resume";
+import type { ResumeData } from "@/lib/types";
+import { validateResumeData } from "@/lib/validation";
+
+function toModuleSource(data: ResumeData): string {
+  const literal = JSON.stringify(data, null, 2).replace(
+    /^(\s*)"([A-Za-z_$][\w$]*)":/gm,
+    "$1$2:"
+  );
+
+  return `import type { ResumeData } from "@/lib/types";
+
+export const RESUME_DATA: ResumeData = ${literal};
+`;
+}
+
+function main([input, output]: string[]) {
+  if (!input) {
+    console.error(
+      "Usage: bun scripts/import-json-resume.ts <resume.json> [output.tsx]"
+    );
+    process.exit(1);
+  }
+
+  const resume = JSON.parse(readFileSync(input, "utf8")) as JsonResume;
+  let imported: JsonResumeImport;
+  try {
+    imported = importJsonResume(resume);
+  } catch (error) {
+    // A resume without `basics.name` has nothing to import
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  const { data, skipped } = imported;
+  const source = toModuleSource(data);
+
+  if (skipped.length > 0) {
+    console.error(`! Skipped ${skipped.length} items missing a field:`);
+    for (const { path, message } of skipped) {
+      console.error(`    ${path} ${message}`);
+    }
+  }
+
+  const issues = validateResumeData(data);
+  if (issues.length > 0) {
+    console.error(`✗ ${issues.length} problems to fix before building:`);
+    for (const { path, message } of issues) {
+      console.error(`    ${path}: ${message}`);
+    }
+  }
+
+  if (output) {
+    writeFileSync(output, source);
+    console.log(`Wrote ${output}`);
+  } else {
+    process.stdout.write(source);
+  }
+
+  if (issues.length > 0) process.exit(1);
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,63 @@
+/**
+ * Validates every resume data module in src/data and lists all problems
+ * found. Runs before `bun run build`.
+ *
+ * Usage: bun scripts/validate-resume-data.ts
+ */
+import { readdirSync } from "node:fs";
+import { join } from "node:path";
+import { readStoredResume } from "@/lib/resume-store";
+import type { ResumeData } from "@/lib/types";
+import { validateResumeData } from "@/lib/validation";
+import { assembleVariants } from "@/lib/variants";
+
+const DATA_DIR = join(process.cwd(), "src/data");
+
+async function main() {
+  const files = readdirSync(DATA_DIR).filter((file) =>
+    /resume-data(\.[a-z]{2})?\.tsx$/.test(file)
+  );
+  const modules = await Promise.all(
+    files.map(async (file) => ({
+      path: file,
+      module: await import(join(DATA_DIR, file)),
+    }))
+  );
+
+  // Every variant in every locale it is published in
+  const resumes: Array<{ name: string; data: ResumeData }> = [];
+  for (const variant of assembleVariants(modules)) {
+    resumes.push({ name: variant.slug, data: variant.data });
+    for (const [locale, data] of Object.entries(variant.translations)) {
+      resumes.push({ name: `${variant.slug} (${locale})`, data });
+    }
+  }
+
+  // Edits made through the GraphQL API replace the default resume
+  const stored = readStoredResume();
+  if (stored) resumes.push({ name: "default (edited)", data: stored });
+
+  let failed = 0;
+
+  for (const { name, data } of resumes) {
+    const issues = validateResumeData(data);
+
+    if (issues.length === 0) {
+      console.log(`✓ ${name}`);
+      continue;
+    }
+
+    failed++;
+    console.error(`✗ ${name}`);
+    for (const { path, message } of issues) {
+      console.error(`    ${path}: ${message}`);
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`\n${failed} of ${resumes.length} resumes invalid`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,100 @@
+import { timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+import { type AuthChecker, AuthenticationError } from "type-graphql";
+
+export interface ApiContext {
+  req: NextRequest;
+  /** Whether the request carries the API token */
+  authorized: boolean;
+}
+
+/**
+ * Checks the `Authorization: Bearer <token>` header against
+ * `RESUME_API_TOKEN`. Without that variable no request is authorised, which
+ * turns editing off
+ */
+export function isAuthorizedRequest(req: NextRequest): boolean {
+  const expected = process.env.RESUME_API_TOKEN;
+  const token = req.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!expected || !token) return false;
+
+  const received = Buffer.from(token);
+  const secret = Buffer.from(expected);
+  return received.length === secret.length && timingSafeEqual(received, secret);
+}
+
+/**
+ * Who may read a field: anyone, only requests with the API token, or nobody
+ */
+export type FieldPrivacy = "public" | "token" | "hidden";
+
+export type ContactField = "email" | "tel";
+
+/**
+ * Privacy of the contact details served by the API. The resume page always
+ * shows them, so this only keeps them away from scrapers of `/graphql`
+ */
+export const CONTACT_PRIVACY: Record<ContactField, FieldPrivacy> = {
+  email: "token",
+  tel: "token",
+};
+
+/**
+ * Whether a request may read fields under all of `policies`. Without a
+ * policy, as on mutations, the API token is required
+ */
+export function canAccess(
+  context: ApiContext,
+  policies: readonly FieldPrivacy[]
+): boolean {
+  if (policies.length === 0) return context.authorized;
+  return policies.every(
+    (policy) =>
+      policy === "public" || (policy === "token" && context.authorized)
+  );
+}
+
+/**
+ * Contact fields that are set but that the request may not read
+ */
+export function withheldContactFields(
+  contact: Partial<Record<ContactField, string>>,
+  context: ApiContext
+): ContactField[] {
+  return (Object.keys(CONTACT_PRIVACY) as ContactField[]).filter(
+    (field) =>
+      contact[field] !== undefined &&
+      !canAccess(context, [CONTACT_PRIVACY[field]])
+  );
+}
+
+const MASKS: Record<ContactField, (value: string) => string> = {
+  // `jane@example.com` becomes `j***@example.com`
+  email: (value) => value.replace(/^(.)[^@]*/, "$1***"),
+  // Every digit but the last three, `+84983472120` becomes `+********120`
+  tel: (value) => value.replace(/\d(?=(?:\D*\d){3})/g, "*"),
+};
+
+/**
+ * Withheld contact fields in a masked form, so callers can tell them from
+ * unset ones without learning the value
+ */
+export function maskContactField(field: ContactField, value: string): string {
+  return MASKS[field](value);
+}
+
+/**
+ * Lets `@Authorized()` mutations through for requests with the API token,
+ * and `@Authorized(policy)` fields as their policy allows. The schema answers
+ * denied fields with null, so mutations are refused here with an error
+ */
+export const authChecker: AuthChecker<ApiContext, FieldPrivacy> = (
+  { context },
+  policies
+) => {
+  if (canAccess(context, policies)) return true;
+  if (policies.length === 0) throw new AuthenticationError();
+  return false;
+};
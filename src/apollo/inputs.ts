@@ -0,0 +1,262 @@
+import { Field, Float, InputType, Int } from "type-graphql";
+import { parseResumeDate } from "../lib/dates";
+import type {
+  ProjectStatus,
+  ResumeAchievement,
+  ResumeDate,
+  ResumeProject,
+  ResumeSkill,
+  ResumeWorkEntry,
+  SkillLevel,
+} from "../lib/types";
+import {
+  EmailAddressScalar,
+  PhoneNumberScalar,
+  ResumeDateScalar,
+  URLScalar,
+} from "./scalars";
+import { ProjectStatusEnum, SkillLevelEnum } from "./type-defs";
+
+@InputType({ description: "Fields to change, omitted ones stay as they are" })
+export class ProfileInput {
+  @Field(() => String, { nullable: true })
+  name?: string;
+
+  @Field(() => String, { nullable: true })
+  initials?: string;
+
+  @Field(() => String, { nullable: true })
+  location?: string;
+
+  @Field(() => URLScalar, { nullable: true })
+  locationLink?: string;
+
+  @Field(() => String, { nullable: true })
+  about?: string;
+
+  @Field(() => String, { nullable: true, description: "Plain text" })
+  summary?: string;
+
+  @Field(() => URLScalar, { nullable: true })
+  avatarUrl?: string;
+
+  @Field(() => URLScalar, { nullable: true })
+  personalWebsiteUrl?: string;
+
+  @Field(() => EmailAddressScalar, { nullable: true })
+  email?: string;
+
+  @Field(() => PhoneNumberScalar, { nullable: true })
+  tel?: string;
+}
+
+@InputType()
+export class LinkInput {
+  @Field(() => String)
+  label: string;
+
+  @Field(() => URLScalar)
+  href: string;
+}
+
+@InputType()
+export class MetricInput {
+  @Field(() => Float)
+  value: number;
+
+  @Field(() => String, { nullable: true })
+  unit?: string;
+}
+
+@InputType()
+export class AchievementInput {
+  @Field(() => String)
+  text: string;
+
+  @Field(() => MetricInput, { nullable: true })
+  metric?: MetricInput;
+
+  @Field(() => [String], { nullable: true })
+  tags?: string[];
+}
+
+@InputType()
+export class WorkRoleInput {
+  @Field(() => String)
+  title: string;
+
+  @Field(() => ResumeDateScalar)
+  start: string;
+
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "Leave out for the current position",
+  })
+  end?: string | null;
+
+  @Field(() => String, { description: "Plain text" })
+  description: string;
+
+  @Field(() => [AchievementInput], { nullable: true })
+  achievements?: AchievementInput[];
+}
+
+@InputType()
+export class WorkInput {
+  @Field(() => String)
+  company: string;
+
+  @Field(() => URLScalar, { nullable: true })
+  link?: string;
+
+  @Field(() => [String], { defaultValue: [] })
+  badges: string[];
+
+  @Field(() => [WorkRoleInput])
+  roles: WorkRoleInput[];
+}
+
+@InputType()
+export class EducationInput {
+  @Field(() => String)
+  school: string;
+
+  @Field(() => String)
+  degree: string;
+
+  @Field(() => String, { nullable: true, description: "Field of study" })
+  area?: string;
+
+  @Field(() => ResumeDateScalar)
+  start: string;
+
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "Leave out while still studying",
+  })
+  end?: string | null;
+}
+
+@InputType()
+export class ProjectInput {
+  @Field(() => String)
+  title: string;
+
+  @Field(() => [String], { defaultValue: [] })
+  techStack: string[];
+
+  @Field(() => String)
+  description: string;
+
+  @Field(() => LinkInput, { nullable: true })
+  link?: LinkInput;
+
+  @Field(() => ProjectStatusEnum, { nullable: true })
+  status?: ProjectStatus;
+
+  @Field(() => ResumeDateScalar, { nullable: true })
+  start?: string;
+
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "Null while ongoing, leave out for one-off projects",
+  })
+  end?: string | null;
+
+  @Field(() => String, { nullable: true })
+  role?: string;
+
+  @Field(() => [AchievementInput], { nullable: true })
+  outcomes?: AchievementInput[];
+}
+
+@InputType()
+export class SkillInput {
+  @Field(() => String)
+  name: string;
+
+  @Field(() => SkillLevelEnum, { nullable: true })
+  level?: SkillLevel;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Year the skill was last used, leave out for current skills",
+  })
+  lastUsed?: number;
+}
+
+// Inputs are class instances with `null` for fields passed as null, resume
+// data is plain objects where optional fields are left out
+
+// The scalar only lets valid dates through
+function toResumeDate(value: string): ResumeDate {
+  return parseResumeDate(value) as ResumeDate;
+}
+
+function toAchievement({
+  text,
+  metric,
+  tags,
+}: AchievementInput): ResumeAchievement {
+  return {
+    text,
+    metric: metric
+      ? { value: metric.value, unit: metric.unit ?? undefined }
+      : undefined,
+    tags: tags ?? undefined,
+  };
+}
+
+export function toWorkEntry(input: WorkInput): ResumeWorkEntry {
+  return {
+    company: input.company,
+    link: input.link ?? undefined,
+    badges: input.badges,
+    roles: input.roles.map((role) => ({
+      title: role.title,
+      start: toResumeDate(role.start),
+      end: role.end ? toResumeDate(role.end) : null,
+      description: role.description,
+      achievements: role.achievements?.map(toAchievement),
+    })),
+  };
+}
+
+export function toEducation(input: EducationInput) {
+  return {
+    school: input.school,
+    degree: input.degree,
+    area: input.area ?? undefined,
+    start: toResumeDate(input.start),
+    end: input.end ? toResumeDate(input.end) : null,
+  };
+}
+
+export function toProject(input: ProjectInput): ResumeProject {
+  return {
+    title: input.title,
+    techStack: input.techStack,
+    description: input.description,
+    link: input.link
+      ? { label: input.link.label, href: input.link.href }
+      : undefined,
+    status: input.status ?? undefined,
+    start: input.start ? toResumeDate(input.start) : undefined,
+    end:
+      input.end === undefined
+        ? undefined
+        : input.end === null
+          ? null
+          : toResumeDate(input.end),
+    role: input.role ?? undefined,
+    outcomes: input.outcomes?.map(toAchievement),
+  };
+}
+
+export function toSkill(input: SkillInput): ResumeSkill {
+  return {
+    name: input.name,
+    level: input.level ?? undefined,
+    lastUsed: input.lastUsed ?? undefined,
+  };
+}
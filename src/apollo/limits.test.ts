@@ -0,0 +1,92 @@
+import { describe, expect, it } from "bun:test";
+import { buildSchema, parse, validate } from "graphql";
+import { NextRequest } from "next/server";
+import { API_LIMITS, queryLimits, rateLimitDelay } from "./limits";
+
+const schema = buildSchema(`
+  type Role { title: String, company: Company }
+  type Company { name: String, roles: [Role] }
+  type Query { company: Company }
+`);
+
+function limitErrors(query: string, maxDepth = 3, maxFields = 5): string[] {
+  return validate(schema, parse(query), [
+    queryLimits({ maxDepth, maxFields }),
+  ]).map((error) => error.message);
+}
+
+describe("queryLimits", () => {
+  it("accepts operations within the limits", () => {
+    expect(limitErrors("{ company { name roles { title } } }")).toEqual([]);
+  });
+
+  it("rejects operations nested too deep", () => {
+    expect(
+      limitErrors("{ company { roles { company { name } } } }", 3, 10)
+    ).toEqual(["Query is nested 4 levels deep, the limit is 3"]);
+  });
+
+  it("counts every alias", () => {
+    expect(
+      limitErrors(
+        "{ a: company { name } b: company { name } c: company { name } }"
+      )
+    ).toEqual(["Query selects 6 fields, the limit is 5"]);
+  });
+
+  it("expands fragments where they are spread", () => {
+    expect(
+      limitErrors(`
+        { a: company { ...names } b: company { ...names } }
+        fragment names on Company { name roles { title } }
+      `)
+    ).toEqual(["Query selects 8 fields, the limit is 5"]);
+  });
+
+  it("does not count introspection fields", () => {
+    expect(limitErrors("{ __typename company { __typename name } }")).toEqual(
+      []
+    );
+  });
+});
+
+function request(ip: string, forwardedFor?: string): NextRequest {
+  return new NextRequest("http://localhost/graphql", {
+    ip,
+    headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {},
+  });
+}
+
+describe("rateLimitDelay", () => {
+  const { rateLimit, rateLimitWindow } = API_LIMITS;
+  const start = Date.UTC(2025, 0, 1);
+
+  it("delays a client once it is over the limit until the window ends", () => {
+    for (let count = 0; count < rateLimit; count++) {
+      expect(rateLimitDelay(request("10.0.0.1"), start)).toBe(0);
+    }
+    expect(rateLimitDelay(request("10.0.0.1"), start + 1500)).toBe(
+      rateLimitWindow - 1
+    );
+    expect(
+      rateLimitDelay(request("10.0.0.1"), start + rateLimitWindow * 1000)
+    ).toBe(0);
+  });
+
+  it("counts clients apart", () => {
+    for (let count = 0; count < rateLimit; count++) {
+      rateLimitDelay(request("10.0.0.2"), start);
+    }
+    expect(rateLimitDelay(request("10.0.0.2"), start)).toBeGreaterThan(0);
+    expect(rateLimitDelay(request("10.0.0.3"), start)).toBe(0);
+  });
+
+  it("ignores X-Forwarded-For unless proxies are trusted", () => {
+    for (let count = 0; count < rateLimit; count++) {
+      rateLimitDelay(request("10.0.0.4", `192.0.2.${count}`), start);
+    }
+    expect(
+      rateLimitDelay(request("10.0.0.4", "198.51.100.1"), start)
+    ).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,232 @@
+import { HeaderMap } from "@apollo/server";
+import {
+  type FragmentDefinitionNode,
+  GraphQLError,
+  Kind,
+  type SelectionSetNode,
+  type ValidationRule,
+} from "graphql";
+import type { NextRequest } from "next/server";
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/** Limits of the public API, each overridable by an environment variable */
+export const API_LIMITS = {
+  /** Levels of nested fields in one operation */
+  maxDepth: readLimit("RESUME_API_MAX_DEPTH", 10),
+  /** Fields selected by one operation, counting every alias and spread */
+  maxFields: readLimit("RESUME_API_MAX_FIELDS", 500),
+  /** Requests a client IP can make per window */
+  rateLimit: readLimit("RESUME_API_RATE_LIMIT", 60),
+  /** Length of the rate limit window in seconds */
+  rateLimitWindow: readLimit("RESUME_API_RATE_LIMIT_WINDOW", 60),
+};
+
+interface QueryCost {
+  depth: number;
+  fields: number;
+}
+
+/**
+ * Measures a selection set with fragments expanded where they are spread.
+ * Fragment costs are cached, so fragments spread many times stay cheap to
+ * measure. Introspection fields are free
+ */
+function measure(
+  selectionSet: SelectionSetNode,
+  fragments: Map<string, FragmentDefinitionNode>,
+  costs: Map<string, QueryCost>
+): QueryCost {
+  let depth = 0;
+  let fields = 0;
+
+  for (const selection of selectionSet.selections) {
+    let cost: QueryCost;
+    if (selection.kind === Kind.FIELD) {
+      if (selection.name.value.startsWith("__")) continue;
+      const nested = selection.selectionSet
+        ? measure(selection.selectionSet, fragments, costs)
+        : { depth: 0, fields: 0 };
+      cost = { depth: nested.depth + 1, fields: nested.fields + 1 };
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      cost = measure(selection.selectionSet, fragments, costs);
+    } else {
+      const name = selection.name.value;
+      const fragment = fragments.get(name);
+      // Unknown fragments are reported by the standard rules
+      if (!fragment) continue;
+      if (!costs.has(name)) {
+        // Counted as free while being measured, so cycles end. They are
+        // reported by the standard rules as well
+        costs.set(name, { depth: 0, fields: 0 });
+        costs.set(name, measure(fragment.selectionSet, fragments, costs));
+      }
+      cost = costs.get(name) as QueryCost;
+    }
+
+    depth = Math.max(depth, cost.depth);
+    fields += cost.fields;
+  }
+
+  return { depth, fields };
+}
+
+/**
+ * Rejects operations nested deeper than `maxDepth` or selecting more than
+ * `maxFields` fields, before any resolver runs
+ */
+export function queryLimits({
+  maxDepth,
+  maxFields,
+}: Pick<typeof API_LIMITS, "maxDepth" | "maxFields">): ValidationRule {
+  return (context) => {
+    const fragments = new Map(
+      context
+        .getDocument()
+        .definitions.filter(
+          (definition): definition is FragmentDefinitionNode =>
+            definition.kind === Kind.FRAGMENT_DEFINITION
+        )
+        .map((fragment) => [fragment.name.value, fragment])
+    );
+    const costs = new Map<string, QueryCost>();
+
+    return {
+      OperationDefinition(operation) {
+        const { depth, fields } = measure(
+          operation.selectionSet,
+          fragments,
+          costs
+        );
+        if (depth > maxDepth) {
+          context.reportError(
+            new GraphQLError(
+              `Query is nested ${depth} levels deep, the limit is ${maxDepth}`,
+              { nodes: operation }
+            )
+          );
+        }
+        if (fields > maxFields) {
+          context.reportError(
+            new GraphQLError(
+              `Query selects ${fields} fields, the limit is ${maxFields}`,
+              { nodes: operation }
+            )
+          );
+        }
+      },
+    };
+  };
+}
+
+// `true` or `1` when the server runs behind a proxy that appends the client
+// address to `X-Forwarded-For`. Without one, clients could pick their address
+// freely
+const TRUST_PROXY = ["true", "1"].includes(
+  process.env.RESUME_API_TRUST_PROXY?.trim().toLowerCase() ?? ""
+);
+
+const UNKNOWN_CLIENT = "unknown";
+
+interface RateLimitStore {
+  /** Requests per client IP in the current window */
+  windows: Map<string, { count: number; resetAt: number }>;
+  lastSweep: number;
+  /** Whether the missing client address was reported */
+  warned: boolean;
+}
+
+// Kept on `globalThis` because Next.js bundles every route on its own, and
+// the GraphQL and REST routes must count into the same windows. Each server
+// instance keeps its own counts, which are lost on restart
+const store = globalThis as typeof globalThis & {
+  resumeApiRateLimits?: RateLimitStore;
+};
+store.resumeApiRateLimits ??= {
+  windows: new Map(),
+  lastSweep: 0,
+  warned: false,
+};
+const rateLimits = store.resumeApiRateLimits;
+
+// Requests whose address is unknown share one window
+function clientIp(req: NextRequest): string {
+  if (TRUST_PROXY) {
+    // The proxy appends the address it received the request from, earlier
+    // entries come from the client
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",").at(-1);
+    if (forwarded?.trim()) return forwarded.trim();
+  }
+  if (req.ip) return req.ip;
+
+  if (!rateLimits.warned) {
+    rateLimits.warned = true;
+    console.warn(
+      "Rate limiting cannot tell API clients apart, as the request has no client address. All clients share one window until RESUME_API_TRUST_PROXY is set behind a reverse proxy"
+    );
+  }
+  return UNKNOWN_CLIENT;
+}
+
+// Clients tracked at once. Further clients share one window until the map
+// has room again, so its memory stays bounded
+const MAX_CLIENTS = 10_000;
+const OVERFLOW = "overflow";
+
+/**
+ * Counts a request against its client's window. Returns the seconds until
+ * the window ends once the client is over `API_LIMITS.rateLimit`, 0 while
+ * it is not
+ */
+export function rateLimitDelay(req: NextRequest, now = Date.now()): number {
+  const windowLength = API_LIMITS.rateLimitWindow * 1000;
+
+  const { windows } = rateLimits;
+
+  // Windows that ended are dropped at most once per window length
+  if (now - rateLimits.lastSweep >= windowLength) {
+    for (const [ip, { resetAt }] of windows) {
+      if (resetAt <= now) windows.delete(ip);
+    }
+    rateLimits.lastSweep = now;
+  }
+
+  let ip = clientIp(req);
+  if (!windows.has(ip) && windows.size >= MAX_CLIENTS) ip = OVERFLOW;
+  let window = windows.get(ip);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowLength };
+    windows.set(ip, window);
+  }
+
+  window.count += 1;
+  return window.count > API_LIMITS.rateLimit
+    ? Math.ceil((window.resetAt - now) / 1000)
+    : 0;
+}
+
+export function rateLimitMessage(retryAfter: number): string {
+  return `Too many requests, try again in ${retryAfter} seconds`;
+}
+
+/**
+ * Throws a `RATE_LIMITED` error, answered with status 429 and `Retry-After`,
+ * once the client is over the rate limit
+ */
+export function checkRateLimit(req: NextRequest): void {
+  const retryAfter = rateLimitDelay(req);
+  if (retryAfter === 0) return;
+
+  throw new GraphQLError(rateLimitMessage(retryAfter), {
+    extensions: {
+      code: "RATE_LIMITED",
+      http: {
+        status: 429,
+        headers: new HeaderMap([["retry-after", String(retryAfter)]]),
+      },
+    },
+  });
+}
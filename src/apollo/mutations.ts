@@ -0,0 +1,322 @@
+import { GraphQLError } from "graphql";
+import { revalidatePath } from "next/cache";
+import { Arg, Authorized, Mutation, Resolver } from "type-graphql";
+import { updateStoredResume } from "../lib/resume-store";
+import {
+  type ResumeData,
+  type ResumeProject,
+  type ResumeSkill,
+  type ResumeSkillGroup,
+  type ResumeWorkEntry,
+  resumeDataToGraphQL,
+} from "../lib/types";
+import { validateResumeData } from "../lib/validation";
+import { getDefaultVariant } from "../lib/variants";
+import {
+  EducationInput,
+  ProfileInput,
+  ProjectInput,
+  SkillInput,
+  toEducation,
+  toProject,
+  toSkill,
+  toWorkEntry,
+  WorkInput,
+} from "./inputs";
+import { Me } from "./type-defs";
+
+function notFound(what: string): GraphQLError {
+  return new GraphQLError(`${what} not found`, {
+    extensions: { code: "NOT_FOUND" },
+  });
+}
+
+function badInput(message: string): GraphQLError {
+  return new GraphQLError(message, { extensions: { code: "BAD_USER_INPUT" } });
+}
+
+/** How items of a list are addressed and named in errors */
+interface ItemKey<T> {
+  of: (item: T) => string;
+  describe: (key: string) => string;
+}
+
+const WORK: ItemKey<ResumeWorkEntry> = {
+  of: (entry) => entry.company,
+  describe: (company) => `Work at ${company}`,
+};
+
+const EDUCATION: ItemKey<ResumeData["education"][number]> = {
+  of: (education) => education.school,
+  describe: (school) => `Education at ${school}`,
+};
+
+const PROJECTS: ItemKey<ResumeProject> = {
+  of: (project) => project.title,
+  describe: (title) => `Project ${title}`,
+};
+
+const SKILL_GROUPS: ItemKey<ResumeSkillGroup> = {
+  of: (group) => group.name,
+  describe: (name) => `Skill group ${name}`,
+};
+
+const SKILLS: ItemKey<ResumeSkill> = {
+  of: (skill) => skill.name,
+  describe: (name) => `Skill ${name}`,
+};
+
+// Keys are unique within a list, so an item cannot take one that is in use
+function addItem<T>(items: T[], item: T, key: ItemKey<T>): T[] {
+  if (items.some((existing) => key.of(existing) === key.of(item))) {
+    throw badInput(`${key.describe(key.of(item))} already exists`);
+  }
+  return [...items, item];
+}
+
+// Replaces the item with key `id`, or removes it when `item` is null
+function replaceItem<T>(
+  items: T[],
+  id: string,
+  item: T | null,
+  key: ItemKey<T>
+): T[] {
+  if (!items.some((existing) => key.of(existing) === id)) {
+    throw notFound(key.describe(id));
+  }
+  const others = items.filter((existing) => key.of(existing) !== id);
+  if (item) addItem(others, item, key);
+
+  return items.flatMap((existing) =>
+    key.of(existing) !== id ? [existing] : item ? [item] : []
+  );
+}
+
+// Applies `edit` to the skills of one group, dropping the group once empty
+function editSkills(
+  data: ResumeData,
+  group: string,
+  edit: (skills: ResumeSkill[]) => ResumeSkill[]
+): ResumeData {
+  const existing = data.skills.find((item) => item.name === group);
+  if (!existing) throw notFound(SKILL_GROUPS.describe(group));
+
+  const skills = edit(existing.skills);
+  return {
+    ...data,
+    skills: replaceItem(
+      data.skills,
+      group,
+      skills.length > 0 ? { ...existing, skills } : null,
+      SKILL_GROUPS
+    ),
+  };
+}
+
+/**
+ * Saves an edit of the default resume once the result passes validation,
+ * then refreshes the statically generated pages
+ */
+async function editResume(
+  update: (data: ResumeData) => ResumeData
+): Promise<Me> {
+  const variant = getDefaultVariant();
+  const data = await updateStoredResume(variant.data, (current) => {
+    const next = update(current);
+    const issues = validateResumeData(next);
+    if (issues.length > 0) {
+      throw badInput(
+        `Invalid resume data: ${issues
+          .map(({ path, message }) => `${path}: ${message}`)
+          .join("; ")}`
+      );
+    }
+    return next;
+  });
+
+  revalidatePath("/", "layout");
+  return { slug: variant.slug, ...resumeDataToGraphQL(data) };
+}
+
+/**
+ * Edits of the default resume, each returning the resume as saved. Work
+ * entries are addressed by company, education by school, projects by title
+ * and skills by group and name. Updates replace the whole entry
+ */
+@Resolver()
+export class ResumeMutationResolver {
+  @Authorized()
+  @Mutation(() => Me, { description: "Changes the fields that are set" })
+  updateProfile(
+    @Arg("input", () => ProfileInput) input: ProfileInput
+  ): Promise<Me> {
+    const { email, tel, ...fields } = input;
+    return editResume((data) => ({
+      ...data,
+      ...Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value != null)
+      ),
+      contact: {
+        ...data.contact,
+        email: email ?? data.contact.email,
+        tel: tel ?? data.contact.tel,
+      },
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  addWork(@Arg("input", () => WorkInput) input: WorkInput): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      work: addItem(data.work, toWorkEntry(input), WORK),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  updateWork(
+    @Arg("company", () => String) company: string,
+    @Arg("input", () => WorkInput) input: WorkInput
+  ): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      work: replaceItem(
+        data.work,
+        company,
+        // Logos are set in code, so the current one is kept
+        {
+          logo: data.work.find((entry) => entry.company === company)?.logo,
+          ...toWorkEntry(input),
+        },
+        WORK
+      ),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  removeWork(@Arg("company", () => String) company: string): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      work: replaceItem(data.work, company, null, WORK),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  addEducation(
+    @Arg("input", () => EducationInput) input: EducationInput
+  ): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      education: addItem(data.education, toEducation(input), EDUCATION),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  updateEducation(
+    @Arg("school", () => String) school: string,
+    @Arg("input", () => EducationInput) input: EducationInput
+  ): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      education: replaceItem(
+        data.education,
+        school,
+        toEducation(input),
+        EDUCATION
+      ),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  removeEducation(@Arg("school", () => String) school: string): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      education: replaceItem(data.education, school, null, EDUCATION),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  addProject(
+    @Arg("input", () => ProjectInput) input: ProjectInput
+  ): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      projects: addItem(data.projects, toProject(input), PROJECTS),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  updateProject(
+    @Arg("title", () => String) title: string,
+    @Arg("input", () => ProjectInput) input: ProjectInput
+  ): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      projects: replaceItem(data.projects, title, toProject(input), PROJECTS),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  removeProject(@Arg("title", () => String) title: string): Promise<Me> {
+    return editResume((data) => ({
+      ...data,
+      projects: replaceItem(data.projects, title, null, PROJECTS),
+    }));
+  }
+
+  @Authorized()
+  @Mutation(() => Me, {
+    description: "Adds a skill, creating the group when it does not exist",
+  })
+  addSkill(
+    @Arg("group", () => String) group: string,
+    @Arg("input", () => SkillInput) input: SkillInput
+  ): Promise<Me> {
+    const skill = toSkill(input);
+    return editResume((data) =>
+      data.skills.some((item) => item.name === group)
+        ? editSkills(data, group, (skills) => addItem(skills, skill, SKILLS))
+        : {
+            ...data,
+            skills: [...data.skills, { name: group, skills: [skill] }],
+          }
+    );
+  }
+
+  @Authorized()
+  @Mutation(() => Me)
+  updateSkill(
+    @Arg("group", () => String) group: string,
+    @Arg("name", () => String) name: string,
+    @Arg("input", () => SkillInput) input: SkillInput
+  ): Promise<Me> {
+    return editResume((data) =>
+      editSkills(data, group, (skills) =>
+        replaceItem(skills, name, toSkill(input), SKILLS)
+      )
+    );
+  }
+
+  @Authorized()
+  @Mutation(() => Me, {
+    description: "Removes a skill, and its group once it is empty",
+  })
+  removeSkill(
+    @Arg("group", () => String) group: string,
+    @Arg("name", () => String) name: string
+  ): Promise<Me> {
+    return editResume((data) =>
+      editSkills(data, group, (skills) =>
+        replaceItem(skills, name, null, SKILLS)
+      )
+    );
+  }
+}
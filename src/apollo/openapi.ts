@@ -0,0 +1,216 @@
+import {
+  type GraphQLEnumType,
+  type GraphQLObjectType,
+  type GraphQLOutputType,
+  type GraphQLSchema,
+  isEnumType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+} from "graphql";
+import { API_LIMITS } from "./limits";
+
+type JsonSchema = Record<string, unknown>;
+
+// Scalars JSON Schema has a type or format for, others are described strings
+const SCALAR_SCHEMAS: Record<string, JsonSchema> = {
+  String: { type: "string" },
+  ID: { type: "string" },
+  Int: { type: "integer" },
+  Float: { type: "number" },
+  Boolean: { type: "boolean" },
+  URL: { type: "string", format: "uri" },
+  EmailAddress: { type: "string", format: "email" },
+};
+
+/**
+ * JSON Schema of a GraphQL output type. Object types are added to `schemas`
+ * and referenced, enums list their values as they appear in REST responses
+ */
+function toJsonSchema(
+  type: GraphQLOutputType,
+  schemas: Record<string, JsonSchema>
+): JsonSchema {
+  const nullable = isNonNullType(type) ? type.ofType : type;
+
+  if (isListType(nullable)) {
+    return { type: "array", items: toJsonSchema(nullable.ofType, schemas) };
+  }
+  if (isScalarType(nullable)) {
+    return (
+      SCALAR_SCHEMAS[nullable.name] ?? {
+        type: "string",
+        description: nullable.description,
+      }
+    );
+  }
+  if (isEnumType(nullable)) {
+    return { type: "string", enum: enumValues(nullable) };
+  }
+  if (isObjectType(nullable)) {
+    addObjectSchema(nullable, schemas);
+    return { $ref: `#/components/schemas/${nullable.name}` };
+  }
+  throw new Error(`${nullable} has no JSON Schema counterpart`);
+}
+
+function enumValues(type: GraphQLEnumType): unknown[] {
+  return type.getValues().map(({ value }) => value);
+}
+
+// Nullable fields are left out of REST responses when unset
+function addObjectSchema(
+  type: GraphQLObjectType,
+  schemas: Record<string, JsonSchema>
+) {
+  if (schemas[type.name]) return;
+  // Claimed before the fields are visited, so recursive types end
+  schemas[type.name] = {};
+
+  const fields = Object.values(type.getFields());
+  schemas[type.name] = {
+    type: "object",
+    description: type.description,
+    properties: Object.fromEntries(
+      fields.map((field) => {
+        const property = toJsonSchema(field.type, schemas);
+        return [
+          field.name,
+          field.description
+            ? { ...property, description: field.description }
+            : property,
+        ];
+      })
+    ),
+    required: fields
+      .filter((field) => isNonNullType(field.type))
+      .map((field) => field.name),
+  };
+}
+
+// REST routes and the field of `Me` each returns, the whole resume for none
+const RESUME_ROUTES: { path: string; summary: string; field?: string }[] = [
+  { path: "/api/resume", summary: "The whole resume" },
+  {
+    path: "/api/resume/work",
+    summary: "Work experience, most recent first",
+    field: "work",
+  },
+  { path: "/api/resume/skills", summary: "Skill groups", field: "skills" },
+];
+
+function errorResponse(description: string): JsonSchema {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: { $ref: "#/components/schemas/Error" },
+      },
+    },
+  };
+}
+
+/**
+ * OpenAPI 3.1 document of the REST mirror, generated from the GraphQL
+ * schema so both APIs describe the same data
+ */
+export function buildOpenApiDocument(schema: GraphQLSchema) {
+  const me = schema.getType("Me") as GraphQLObjectType;
+  const schemas: Record<string, JsonSchema> = {
+    Error: {
+      type: "object",
+      properties: { error: { type: "string" } },
+      required: ["error"],
+    },
+  };
+
+  const parameters = [
+    {
+      name: "slug",
+      in: "query",
+      description: "Resume variant",
+      schema: { type: "string", default: "default" },
+    },
+    {
+      name: "locale",
+      in: "query",
+      description: "Language of the content and formatted dates",
+      schema: {
+        type: "string",
+        enum: enumValues(schema.getType("Locale") as GraphQLEnumType),
+        default: "en",
+      },
+    },
+    {
+      name: "format",
+      in: "query",
+      description: "Serialisation of rich text fields",
+      schema: {
+        type: "string",
+        enum: enumValues(schema.getType("TextFormat") as GraphQLEnumType),
+        default: "markdown",
+      },
+    },
+  ];
+
+  const paths = Object.fromEntries(
+    RESUME_ROUTES.map(({ path, summary, field }) => [
+      path,
+      {
+        get: {
+          summary,
+          parameters,
+          security: [{}, { bearerAuth: [] }],
+          responses: {
+            200: {
+              description: summary,
+              content: {
+                "application/json": {
+                  schema: field
+                    ? toJsonSchema(me.getFields()[field].type, schemas)
+                    : toJsonSchema(me, schemas),
+                },
+              },
+            },
+            400: errorResponse("Unknown locale or format"),
+            404: errorResponse("No resume variant with this slug"),
+            429: {
+              ...errorResponse(
+                `More than ${API_LIMITS.rateLimit} requests from this IP in ${API_LIMITS.rateLimitWindow} seconds`
+              ),
+              headers: {
+                "Retry-After": {
+                  description: "Seconds until requests are accepted again",
+                  schema: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+      },
+    ])
+  );
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Resume API",
+      version: "1.0.0",
+      description:
+        "REST mirror of the GraphQL API at /graphql, serving the same resume data",
+    },
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "RESUME_API_TOKEN, which reveals contact details withheld from anonymous callers",
+        },
+      },
+    },
+  };
+}
@@ -1,12 +1,240 @@
-import { Query, Resolver } from "type-graphql";
-import { RESUME_DATA } from "../data/resume-data";
-import { resumeDataToGraphQL } from "../lib/types";
-import { Me } from "./type-defs";
+import { GraphQLError } from "graphql";
+import {
+  Arg,
+  Ctx,
+  FieldResolver,
+  Int,
+  Query,
+  Resolver,
+  Root,
+} from "type-graphql";
+import { parseResumeDate } from "../lib/dates";
+import { filterProjects, sortProjects } from "../lib/projects";
+import { variantToGraphQL } from "../lib/resume-store";
+import { formatRichText } from "../lib/rich-text";
+import { getDefaultVariant, getVariant, getVariants } from "../lib/variants";
+import {
+  type ApiContext,
+  type ContactField,
+  maskContactField,
+  withheldContactFields,
+} from "./auth";
+import {
+  Contact,
+  CustomEntry,
+  LocaleEnum,
+  Me,
+  Project,
+  ProjectSortEnum,
+  ProjectStatusEnum,
+  SkillGroup,
+  TextFormat,
+  Work,
+  WorkRole,
+} from "./type-defs";
+
+// Ignores case but not accents, so "du lieu" does not match "Dữ liệu"
+function sameText(a: string, b: string): boolean {
+  return a.localeCompare(b, undefined, { sensitivity: "accent" }) === 0;
+}
+
+// `end` is an ISO date, or left out while ongoing
+function endsInOrAfter(end: string | undefined, year: number): boolean {
+  const date = parseResumeDate(end);
+  return date === null || date.year >= year;
+}
 
 @Resolver(() => Me)
 export class MeResolver {
-  @Query(() => Me)
-  me(): Me {
-    return resumeDataToGraphQL(RESUME_DATA);
+  @Query(() => Me, {
+    description:
+      'The default resume, same as resume(slug: "default"). Locales without a translation fall back to the default content',
+  })
+  me(
+    @Arg("locale", () => LocaleEnum, { defaultValue: LocaleEnum.EN })
+    locale: LocaleEnum
+  ): Me {
+    return variantToGraphQL(getDefaultVariant(), locale);
+  }
+
+  @Query(() => Me, {
+    nullable: true,
+    description: "A resume variant by slug, null when there is none",
+  })
+  resume(
+    @Arg("slug", () => String) slug: string,
+    @Arg("locale", () => LocaleEnum, { defaultValue: LocaleEnum.EN })
+    locale: LocaleEnum
+  ): Me | null {
+    const variant = getVariant(slug);
+    return variant ? variantToGraphQL(variant, locale) : null;
+  }
+
+  @Query(() => [Me], { description: "Every resume variant, default first" })
+  resumes(
+    @Arg("locale", () => LocaleEnum, { defaultValue: LocaleEnum.EN })
+    locale: LocaleEnum
+  ): Me[] {
+    return getVariants().map((variant) => variantToGraphQL(variant, locale));
+  }
+
+  @FieldResolver(() => String)
+  summary(
+    @Root() me: Me,
+    @Arg("format", () => TextFormat, { defaultValue: TextFormat.MARKDOWN })
+    format: TextFormat
+  ): string {
+    return formatRichText(me.summary, format);
+  }
+
+  @FieldResolver(() => [Work], { description: "Most recent first" })
+  work(
+    @Root() me: Me,
+    @Arg("badge", () => String, {
+      nullable: true,
+      description: "Only companies with this badge, ignoring case",
+    })
+    badge: string | undefined,
+    @Arg("since", () => Int, {
+      nullable: true,
+      description: "Only companies left in or after this year, or current",
+    })
+    since: number | undefined,
+    @Arg("limit", () => Int, {
+      nullable: true,
+      description: "Maximum number of companies",
+    })
+    limit: number | undefined
+  ): Work[] {
+    if (limit != null && limit < 0) {
+      throw new GraphQLError("limit must not be negative", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    const work = me.work.filter(
+      (job) =>
+        (!badge || job.badges.some((item) => sameText(item, badge))) &&
+        (since == null || endsInOrAfter(job.end, since))
+    );
+    return work.slice(0, limit ?? undefined);
+  }
+
+  @FieldResolver(() => [Project])
+  projects(
+    @Root() me: Me,
+    @Arg("status", () => [ProjectStatusEnum], {
+      nullable: true,
+      description: "Only projects with one of these statuses",
+    })
+    status: ProjectStatusEnum[] | undefined,
+    @Arg("tech", () => String, {
+      nullable: true,
+      description: "Only projects using this technology, ignoring case",
+    })
+    tech: string | undefined,
+    @Arg("sort", () => ProjectSortEnum, {
+      defaultValue: ProjectSortEnum.FEATURED,
+    })
+    sort: ProjectSortEnum
+  ): Project[] {
+    const projects = filterProjects(me.projects, status).filter(
+      (project) =>
+        !tech || project.techStack.some((item) => sameText(item, tech))
+    );
+    // Sorting compares resume dates, so the ISO strings are parsed back
+    const dated = projects.map((project) => ({
+      project,
+      status: project.status,
+      start: parseResumeDate(project.start) ?? undefined,
+      end: project.ongoing ? null : (parseResumeDate(project.end) ?? undefined),
+    }));
+    return sortProjects(dated, sort).map(({ project }) => project);
+  }
+
+  @FieldResolver(() => [SkillGroup])
+  skills(
+    @Root() me: Me,
+    @Arg("group", () => String, {
+      nullable: true,
+      description: "Only the group with this name, ignoring case",
+    })
+    group: string | undefined
+  ): SkillGroup[] {
+    if (!group) return me.skills;
+    return me.skills.filter(({ name }) => sameText(name, group));
+  }
+}
+
+@Resolver(() => WorkRole)
+export class WorkRoleResolver {
+  @FieldResolver(() => String)
+  description(
+    @Root() role: WorkRole,
+    @Arg("format", () => TextFormat, { defaultValue: TextFormat.MARKDOWN })
+    format: TextFormat
+  ): string {
+    return formatRichText(role.description, format);
+  }
+}
+
+@Resolver(() => CustomEntry)
+export class CustomEntryResolver {
+  @FieldResolver(() => String, { nullable: true })
+  description(
+    @Root() entry: CustomEntry,
+    @Arg("format", () => TextFormat, { defaultValue: TextFormat.MARKDOWN })
+    format: TextFormat
+  ): string | undefined {
+    return entry.description && formatRichText(entry.description, format);
+  }
+}
+
+// Masked form of a contact field the caller may not read
+function masked(
+  contact: Contact,
+  field: ContactField,
+  context: ApiContext
+): string | undefined {
+  const value = contact[field];
+  return value && withheldContactFields(contact, context).includes(field)
+    ? maskContactField(field, value)
+    : undefined;
+}
+
+@Resolver(() => Contact)
+export class ContactResolver {
+  @FieldResolver(() => [String], {
+    description:
+      "Names of the fields that are set but withheld from this caller by the privacy policy, e.g. email",
+  })
+  withheld(
+    @Root() contact: Contact,
+    @Ctx() context: ApiContext
+  ): ContactField[] {
+    return withheldContactFields(contact, context);
+  }
+
+  @FieldResolver(() => String, {
+    nullable: true,
+    description: "The email when it is withheld, masked as in j***@example.com",
+  })
+  maskedEmail(
+    @Root() contact: Contact,
+    @Ctx() context: ApiContext
+  ): string | undefined {
+    return masked(contact, "email", context);
+  }
+
+  @FieldResolver(() => String, {
+    nullable: true,
+    description:
+      "The phone number when it is withheld, with all but the last three digits masked",
+  })
+  maskedTel(
+    @Root() contact: Contact,
+    @Ctx() context: ApiContext
+  ): string | undefined {
+    return masked(contact, "tel", context);
   }
 }
@@ -0,0 +1,140 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { DEFAULT_LOCALE, isLocale, LOCALES } from "../lib/i18n";
+import { variantToGraphQL } from "../lib/resume-store";
+import {
+  formatRichText,
+  RICH_TEXT_FORMATS,
+  type RichTextFormat,
+} from "../lib/rich-text";
+import type { GraphQLMe, ResumeData } from "../lib/types";
+import { DEFAULT_VARIANT_SLUG, getVariant } from "../lib/variants";
+import {
+  type ApiContext,
+  type ContactField,
+  isAuthorizedRequest,
+  maskContactField,
+  withheldContactFields,
+} from "./auth";
+import { rateLimitDelay, rateLimitMessage } from "./limits";
+
+function isRichTextFormat(value: string): value is RichTextFormat {
+  return (RICH_TEXT_FORMATS as string[]).includes(value);
+}
+
+function errorResponse(
+  error: string,
+  status: number,
+  headers?: HeadersInit
+): NextResponse {
+  return NextResponse.json({ error }, { status, headers });
+}
+
+/**
+ * Resume data with the contact details the request may not read masked, for
+ * exports built from the data rather than the API types
+ */
+export function withholdContact(
+  data: ResumeData,
+  req: NextRequest
+): ResumeData {
+  const withheld = withheldContactFields(data.contact, {
+    req,
+    authorized: isAuthorizedRequest(req),
+  });
+  const mask = (field: ContactField) =>
+    withheld.includes(field)
+      ? maskContactField(field, data.contact[field])
+      : data.contact[field];
+
+  return {
+    ...data,
+    contact: { ...data.contact, email: mask("email"), tel: mask("tel") },
+  };
+}
+
+// Same fields as the GraphQL `Me` type queried with default arguments: rich
+// text in `format` and contact details withheld by the privacy policy
+function toRestResume(
+  resume: GraphQLMe & { slug: string },
+  format: RichTextFormat,
+  context: ApiContext
+) {
+  const { email, tel } = resume.contact;
+  const withheld = withheldContactFields(resume.contact, context);
+  const isWithheld = (field: ContactField) => withheld.includes(field);
+
+  return {
+    ...resume,
+    summary: formatRichText(resume.summary, format),
+    contact: {
+      ...resume.contact,
+      email: isWithheld("email") ? undefined : email,
+      tel: isWithheld("tel") ? undefined : tel,
+      withheld,
+      maskedEmail:
+        email && isWithheld("email")
+          ? maskContactField("email", email)
+          : undefined,
+      maskedTel:
+        tel && isWithheld("tel") ? maskContactField("tel", tel) : undefined,
+    },
+    work: resume.work.map((job) => ({
+      ...job,
+      roles: job.roles.map((role) => ({
+        ...role,
+        description: formatRichText(role.description, format),
+      })),
+    })),
+    customSections: resume.customSections.map((section) => ({
+      ...section,
+      entries: section.entries.map((entry) => ({
+        ...entry,
+        description:
+          entry.description && formatRichText(entry.description, format),
+      })),
+    })),
+  };
+}
+
+export type RestResume = ReturnType<typeof toRestResume>;
+
+/**
+ * Answers a REST request with `select` applied to the requested resume. The
+ * `slug`, `locale` and `format` query parameters and the rate limit work as
+ * in the GraphQL API
+ */
+export function resumeResponse(
+  req: NextRequest,
+  select: (resume: RestResume) => unknown
+): NextResponse {
+  const retryAfter = rateLimitDelay(req);
+  if (retryAfter > 0) {
+    return errorResponse(rateLimitMessage(retryAfter), 429, {
+      "Retry-After": String(retryAfter),
+    });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const locale = params.get("locale") ?? DEFAULT_LOCALE;
+  const format = params.get("format") ?? "markdown";
+  if (!isLocale(locale)) {
+    return errorResponse(
+      `Unknown locale ${locale}, expected one of ${LOCALES.join(", ")}`,
+      400
+    );
+  }
+  if (!isRichTextFormat(format)) {
+    return errorResponse(
+      `Unknown format ${format}, expected one of ${RICH_TEXT_FORMATS.join(", ")}`,
+      400
+    );
+  }
+
+  const variant = getVariant(params.get("slug") ?? DEFAULT_VARIANT_SLUG);
+  if (!variant) return errorResponse("Resume not found", 404);
+
+  const context = { req, authorized: isAuthorizedRequest(req) };
+  return NextResponse.json(
+    select(toRestResume(variantToGraphQL(variant, locale), format, context))
+  );
+}
@@ -0,0 +1,101 @@
+import {
+  GraphQLError,
+  GraphQLScalarType,
+  Kind,
+  print,
+  type ValueNode,
+} from "graphql";
+import {
+  EmailAddressResolver,
+  PhoneNumberResolver,
+  URLResolver,
+} from "graphql-scalars";
+
+// Resume data that does not fit its scalar is a data error, not a crash, so
+// it gets its own code and keeps its message in production
+function invalidData(name: string, value: unknown): GraphQLError {
+  return new GraphQLError(
+    `Resume data is not a valid ${name}: ${JSON.stringify(value)}`,
+    { extensions: { code: "INVALID_RESUME_DATA" } }
+  );
+}
+
+function invalidInput(name: string, value: string): GraphQLError {
+  return new GraphQLError(`Expected a ${name}, got ${value}`, {
+    extensions: { code: "BAD_USER_INPUT" },
+  });
+}
+
+/**
+ * Reports values a scalar rejects by scalar name and value, rather than
+ * messages such as "Invalid URL" that do not say what was wrong
+ */
+function withClearErrors(scalar: GraphQLScalarType): GraphQLScalarType {
+  const { serialize, parseValue, parseLiteral } = scalar.toConfig();
+
+  return new GraphQLScalarType({
+    ...scalar.toConfig(),
+    serialize(value) {
+      try {
+        return serialize(value);
+      } catch {
+        throw invalidData(scalar.name, value);
+      }
+    },
+    parseValue(value) {
+      try {
+        return parseValue(value);
+      } catch {
+        throw invalidInput(scalar.name, JSON.stringify(value));
+      }
+    },
+    parseLiteral(ast, variables) {
+      try {
+        return parseLiteral(ast, variables);
+      } catch {
+        throw invalidInput(scalar.name, print(ast));
+      }
+    },
+  });
+}
+
+export const EmailAddressScalar = withClearErrors(EmailAddressResolver);
+
+export const PhoneNumberScalar = withClearErrors(PhoneNumberResolver);
+
+// Inputs are checked by the resolver but kept as written, rather than parsed
+// into the `URL` objects it returns
+export const URLScalar = withClearErrors(
+  new GraphQLScalarType({
+    ...URLResolver.toConfig(),
+    parseValue(value) {
+      URLResolver.parseValue(value);
+      return value;
+    },
+    parseLiteral(ast: ValueNode, variables) {
+      URLResolver.parseLiteral(ast, variables);
+      return ast.kind === Kind.STRING ? ast.value : undefined;
+    },
+  })
+);
+
+// `2022` or `2022-03`, the precision resume dates are kept in
+const ISO_DATE = /^\d{4}(?:-(?:0[1-9]|1[0-2]))?$/;
+
+function toResumeDate(value: unknown): string {
+  if (typeof value === "string" && ISO_DATE.test(value)) return value;
+  throw new TypeError(`Not a resume date: ${value}`);
+}
+
+export const ResumeDateScalar = withClearErrors(
+  new GraphQLScalarType({
+    name: "ResumeDate",
+    description:
+      "ISO 8601 date with year or month precision, e.g. 2022 or 2022-03. The end of an ongoing period is null",
+    serialize: toResumeDate,
+    parseValue: toResumeDate,
+    parseLiteral(ast) {
+      return toResumeDate(ast.kind === Kind.STRING ? ast.value : undefined);
+    },
+  })
+);
@@ -0,0 +1,27 @@
+import "reflect-metadata";
+
+import { buildSchema } from "type-graphql";
+import { authChecker } from "./auth";
+import { ResumeMutationResolver } from "./mutations";
+import {
+  ContactResolver,
+  CustomEntryResolver,
+  MeResolver,
+  WorkRoleResolver,
+} from "./resolvers";
+
+/** The schema served at `/graphql`, also the source of the OpenAPI spec */
+export function buildResumeSchema() {
+  return buildSchema({
+    resolvers: [
+      MeResolver,
+      WorkRoleResolver,
+      CustomEntryResolver,
+      ContactResolver,
+      ResumeMutationResolver,
+    ],
+    authChecker,
+    // Withheld contact details read as null rather than failing the query
+    authMode: "null",
+  });
+}
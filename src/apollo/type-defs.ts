@@ -1,21 +1,110 @@
-import { Field, ObjectType } from "type-graphql";
+import {
+  Authorized,
+  Field,
+  Float,
+  Int,
+  ObjectType,
+  registerEnumType,
+} from "type-graphql";
+import type {
+  LanguageLevel,
+  Locale,
+  ProjectStatus,
+  PublicationType,
+  RichText,
+  SkillLevel,
+} from "../lib/types";
+import { CONTACT_PRIVACY } from "./auth";
+import {
+  EmailAddressScalar,
+  PhoneNumberScalar,
+  ResumeDateScalar,
+  URLScalar,
+} from "./scalars";
+
+export enum TextFormat {
+  PLAIN = "plain",
+  MARKDOWN = "markdown",
+  HTML = "html",
+}
+
+registerEnumType(TextFormat, {
+  name: "TextFormat",
+  description: "Serialisation of rich text fields",
+});
+
+// The values of the enums below match the string unions of resume data, such
+// as Locale and SkillLevel, so arguments and data pass between them as is
+export enum LocaleEnum {
+  EN = "en",
+  VI = "vi",
+}
+
+registerEnumType(LocaleEnum, {
+  name: "Locale",
+  description: "Language of the resume content and formatted dates",
+});
+
+export enum SkillLevelEnum {
+  BEGINNER = "beginner",
+  INTERMEDIATE = "intermediate",
+  ADVANCED = "advanced",
+  EXPERT = "expert",
+}
+
+registerEnumType(SkillLevelEnum, { name: "SkillLevel" });
+
+enum LanguageLevelEnum {
+  A1 = "A1",
+  A2 = "A2",
+  B1 = "B1",
+  B2 = "B2",
+  C1 = "C1",
+  C2 = "C2",
+  FLUENT = "fluent",
+  NATIVE = "native",
+}
+
+registerEnumType(LanguageLevelEnum, {
+  name: "LanguageLevel",
+  description: "CEFR level, or FLUENT/NATIVE where no test score applies",
+});
 
 @ObjectType()
 export class Social {
   @Field(() => String)
   name: string;
 
-  @Field(() => String)
+  @Field(() => URLScalar)
   url: string;
 }
 
 @ObjectType()
-export class Contact {
+export class Language {
   @Field(() => String)
-  email: string;
+  name: string;
 
-  @Field(() => String)
-  tel: string;
+  @Field(() => String, {
+    nullable: true,
+    description: "BCP 47 language tag, e.g. vi",
+  })
+  code?: string;
+
+  @Field(() => LanguageLevelEnum, { nullable: true })
+  level?: LanguageLevel;
+}
+
+// Details the caller may not read come back as null, with a masked form in
+// `maskedEmail` and `maskedTel`
+@ObjectType()
+export class Contact {
+  @Authorized(CONTACT_PRIVACY.email)
+  @Field(() => EmailAddressScalar, { nullable: true })
+  email?: string;
+
+  @Authorized(CONTACT_PRIVACY.tel)
+  @Field(() => PhoneNumberScalar, { nullable: true })
+  tel?: string;
 
   @Field(() => [Social])
   social: Social[];
@@ -29,11 +118,84 @@ export class Education {
   @Field(() => String)
   degree: string;
 
-  @Field(() => String)
+  @Field(() => String, { nullable: true, description: "Field of study" })
+  area?: string;
+
+  @Field(() => ResumeDateScalar)
   start: string;
 
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "Null while ongoing",
+  })
+  end?: string;
+
+  @Field(() => String, {
+    description: "Formatted range, e.g. Mar 2022 – Dec 2023",
+  })
+  period: string;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Length of the period when both ends have month precision",
+  })
+  duration?: string;
+}
+
+@ObjectType()
+export class Metric {
+  @Field(() => Float)
+  value: number;
+
+  @Field(() => String, { nullable: true })
+  unit?: string;
+
+  @Field(() => String, { description: "Display form, e.g. 100% or 2x" })
+  formatted: string;
+}
+
+@ObjectType()
+export class Achievement {
+  @Field(() => String)
+  text: string;
+
+  @Field(() => Metric, { nullable: true })
+  metric?: Metric;
+
+  @Field(() => [String])
+  tags: string[];
+}
+
+@ObjectType()
+export class WorkRole {
   @Field(() => String)
-  end: string;
+  title: string;
+
+  @Field(() => ResumeDateScalar)
+  start: string;
+
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "Null while ongoing",
+  })
+  end?: string;
+
+  @Field(() => String, {
+    description: "Formatted range, e.g. Mar 2022 – Dec 2023",
+  })
+  period: string;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Length of the period when both ends have month precision",
+  })
+  duration?: string;
+
+  // Exposed through WorkRoleResolver so callers can pick the format
+  description: RichText;
+
+  @Field(() => [Achievement])
+  achievements: Achievement[];
 }
 
 @ObjectType()
@@ -41,23 +203,128 @@ export class Work {
   @Field(() => String)
   company: string;
 
-  @Field(() => String)
-  link: string;
+  @Field(() => URLScalar, { nullable: true })
+  link?: string;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Logo URL, or a path on this site for bundled logos",
+  })
+  logo?: string;
 
   @Field(() => [String])
   badges: string[];
 
+  @Field(() => ResumeDateScalar, {
+    description: "Start of the earliest role",
+  })
+  start: string;
+
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "End of the latest role, null while it is ongoing",
+  })
+  end?: string;
+
+  @Field(() => String, {
+    description: "Formatted range, e.g. Mar 2022 – Dec 2023",
+  })
+  period: string;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Time at the company when both ends have month precision",
+  })
+  duration?: string;
+
+  @Field(() => [WorkRole], { description: "Positions, most recent first" })
+  roles: WorkRole[];
+}
+
+@ObjectType()
+export class Certification {
   @Field(() => String)
-  title: string;
+  name: string;
 
   @Field(() => String)
-  start: string;
+  issuer: string;
+
+  @Field(() => String, { nullable: true })
+  credentialId?: string;
+
+  @Field(() => ResumeDateScalar)
+  issued: string;
+
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "Null when the credential does not expire",
+  })
+  expires?: string;
+
+  @Field(() => URLScalar, {
+    nullable: true,
+    description: "Verification page",
+  })
+  url?: string;
+
+  @Field(() => Boolean, { description: "Whether the expiry date has passed" })
+  expired: boolean;
+}
+
+enum PublicationTypeEnum {
+  ARTICLE = "article",
+  PAPER = "paper",
+  TALK = "talk",
+}
+
+registerEnumType(PublicationTypeEnum, { name: "PublicationType" });
+
+@ObjectType()
+export class Publication {
+  @Field(() => PublicationTypeEnum)
+  type: PublicationType;
 
   @Field(() => String)
-  end: string;
+  title: string;
+
+  @Field(() => String, { description: "Conference, journal or publisher" })
+  venue: string;
+
+  @Field(() => ResumeDateScalar)
+  date: string;
+
+  @Field(() => [String])
+  coAuthors: string[];
+
+  @Field(() => URLScalar, { nullable: true })
+  url?: string;
 
+  @Field(() => String, { description: "One-line citation" })
+  citation: string;
+}
+
+@ObjectType()
+export class Skill {
   @Field(() => String)
-  description: string;
+  name: string;
+
+  @Field(() => SkillLevelEnum, { nullable: true })
+  level?: SkillLevel;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Year the skill was last used, null when current",
+  })
+  lastUsed?: number;
+}
+
+@ObjectType()
+export class SkillGroup {
+  @Field(() => String)
+  name: string;
+
+  @Field(() => [Skill])
+  skills: Skill[];
 }
 
 @ObjectType()
@@ -65,10 +332,33 @@ export class Link {
   @Field(() => String)
   label: string;
 
-  @Field(() => String)
+  @Field(() => URLScalar)
   href: string;
 }
 
+export enum ProjectStatusEnum {
+  ACTIVE = "active",
+  MAINTAINED = "maintained",
+  ARCHIVED = "archived",
+}
+
+registerEnumType(ProjectStatusEnum, { name: "ProjectStatus" });
+
+export enum ProjectSortEnum {
+  FEATURED = "featured",
+  RECENT = "recent",
+  STATUS = "status",
+}
+
+registerEnumType(ProjectSortEnum, {
+  name: "ProjectSort",
+  description: "FEATURED keeps the order of the resume",
+  valuesConfig: {
+    RECENT: { description: "Ongoing first, then by end date" },
+    STATUS: { description: "Active, maintained, archived, then unset" },
+  },
+});
+
 @ObjectType()
 export class Project {
   @Field(() => String)
@@ -82,10 +372,90 @@ export class Project {
 
   @Field(() => Link, { nullable: true })
   link?: Link;
+
+  @Field(() => ProjectStatusEnum, { nullable: true })
+  status?: ProjectStatus;
+
+  @Field(() => ResumeDateScalar, { nullable: true })
+  start?: string;
+
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "Null for single-date and ongoing entries",
+  })
+  end?: string;
+
+  @Field(() => Boolean, { description: "Whether the period is ongoing" })
+  ongoing: boolean;
+
+  @Field(() => String, {
+    nullable: true,
+    description: 'Formatted date or range, e.g. "Mar 2022 – Present"',
+  })
+  period?: string;
+
+  @Field(() => String, { nullable: true, description: "Role on the project" })
+  role?: string;
+
+  @Field(() => [Achievement])
+  outcomes: Achievement[];
+}
+
+@ObjectType()
+export class CustomEntry {
+  @Field(() => String)
+  heading: string;
+
+  @Field(() => String, { nullable: true })
+  subheading?: string;
+
+  @Field(() => ResumeDateScalar, { nullable: true })
+  start?: string;
+
+  @Field(() => ResumeDateScalar, {
+    nullable: true,
+    description: "Null for single-date and ongoing entries",
+  })
+  end?: string;
+
+  @Field(() => Boolean, { description: "Whether the period is ongoing" })
+  ongoing: boolean;
+
+  @Field(() => String, {
+    nullable: true,
+    description: 'Formatted date or range, e.g. "Mar 2022 – Present"',
+  })
+  period?: string;
+
+  // Exposed through CustomEntryResolver so callers can pick the format
+  description?: RichText;
+
+  @Field(() => [String])
+  tags: string[];
+
+  @Field(() => URLScalar, { nullable: true })
+  link?: string;
+}
+
+@ObjectType({ description: "A section defined in data, e.g. Awards" })
+export class CustomSection {
+  @Field(() => String)
+  title: string;
+
+  @Field(() => [CustomEntry])
+  entries: CustomEntry[];
 }
 
 @ObjectType()
 export class Me {
+  @Field(() => String, {
+    description: 'Variant slug, "default" for the main resume',
+  })
+  slug: string;
+
+  @Field(() => LocaleEnum)
+  locale: Locale;
+
   @Field(() => String)
   name: string;
 
@@ -95,20 +465,23 @@ export class Me {
   @Field(() => String)
   location: string;
 
-  @Field(() => String)
+  @Field(() => URLScalar)
   locationLink: string;
 
   @Field(() => String)
   about: string;
 
-  @Field(() => String)
-  summary: string;
+  // Exposed through MeResolver so callers can pick the format
+  summary: RichText;
 
-  @Field(() => String)
-  avatarUrl: string;
+  @Field(() => URLScalar, { nullable: true })
+  avatarUrl?: string;
 
-  @Field(() => String)
-  personalWebsiteUrl: string;
+  @Field(() => URLScalar, { nullable: true })
+  personalWebsiteUrl?: string;
+
+  @Field(() => [Language])
+  languages: Language[];
 
   @Field(() => Contact)
   contact: Contact;
@@ -116,12 +489,21 @@ export class Me {
   @Field(() => [Education])
   education: Education[];
 
-  @Field(() => [Work])
+  // Exposed through MeResolver so callers can filter
   work: Work[];
 
-  @Field(() => [String])
-  skills: string[];
+  @Field(() => [Certification])
+  certifications: Certification[];
+
+  @Field(() => [Publication], { description: "Newest first" })
+  publications: Publication[];
 
-  @Field(() => [Project])
+  // Exposed through MeResolver so callers can filter
+  skills: SkillGroup[];
+
+  // Exposed through MeResolver so callers can filter and sort
   projects: Project[];
+
+  @Field(() => [CustomSection])
+  customSections: CustomSection[];
 }
@@ -0,0 +1,113 @@
+import { Analytics } from "@vercel/analytics/react";
+import type { Metadata, Viewport } from "next";
+import { Inter } from "next/font/google";
+
+import "../globals.css";
+import "../google-fonts.css";
+import type React from "react";
+import { ErrorBoundary } from "@/components/error-boundary";
+import { getMessages, LOCALES } from "@/lib/i18n";
+import { applyStoredResume } from "@/lib/resume-store";
+import type { Locale } from "@/lib/types";
+import { getDefaultVariant, getLocalizedData } from "@/lib/variants";
+
+interface RootLayoutProps {
+  children: React.ReactNode;
+  params: { locale: Locale };
+}
+
+// Pages narrow this down to the locales their content is translated into
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+const inter = Inter({
+  subsets: ["latin"],
+  display: "swap",
+});
+
+export function generateMetadata({
+  params,
+}: Pick<RootLayoutProps, "params">): Metadata {
+  const variant = applyStoredResume(getDefaultVariant());
+  const data = getLocalizedData(variant, params.locale) ?? variant.data;
+
+  return {
+    metadataBase: new URL("https://cv.jarocki.me"),
+    title: {
+      default: `${data.name} - ${data.about}`,
+      template: `%s | ${data.name}`,
+    },
+    description: data.about,
+    keywords: [
+      "resume",
+      "cv",
+      "portfolio",
+      data.name,
+      "software engineer",
+      "full stack developer",
+      "react",
+      "next.js",
+      "typescript",
+    ],
+    authors: [{ name: data.name }],
+    creator: data.name,
+    publisher: data.name,
+    formatDetection: {
+      email: false,
+      address: false,
+      telephone: false,
+    },
+    openGraph: {
+      type: "website",
+      locale: getMessages(params.locale).openGraphLocale,
+      url: data.personalWebsiteUrl,
+      siteName: `${data.name}'s CV`,
+      title: `${data.name} - ${data.about}`,
+      description: data.about,
+    },
+    robots: {
+      index: true,
+      follow: true,
+      googleBot: {
+        index: true,
+        follow: true,
+        "max-video-preview": -1,
+        "max-image-preview": "large",
+        "max-snippet": -1,
+      },
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: `${data.name} - ${data.about}`,
+      description: data.about,
+      creator: "@BartoszJarocki",
+    },
+    alternates: {
+      canonical: data.personalWebsiteUrl,
+    },
+  };
+}
+
+export const viewport: Viewport = {
+  themeColor: [
+    { media: "(prefers-color-scheme: light)", color: "white" },
+    { media: "(prefers-color-scheme: dark)", color: "black" },
+  ],
+  width: "device-width",
+  initialScale: 1,
+  maximumScale: 5,
+};
+
+export default function RootLayout({ children, params }: RootLayoutProps) {
+  return (
+    <html lang={params.locale} className={inter.className}>
+      <body>
+        <ErrorBoundary>{children}</ErrorBoundary>
+      </body>
+      <Analytics />
+    </html>
+  );
+}
@@ -0,0 +1,27 @@
+import { notFound } from "next/navigation";
+import { createResumeImage, OG_IMAGE_SIZE } from "@/lib/og-image";
+import { applyStoredResume } from "@/lib/resume-store";
+import type { Locale } from "@/lib/types";
+import { getDefaultVariant, getLocalizedData } from "@/lib/variants";
+
+// Reads the resume edited through the API from disk, which needs Node.js
+export const runtime = "nodejs";
+
+export const alt = "Minimalist Resume";
+export const size = OG_IMAGE_SIZE;
+
+export const contentType = "image/png";
+
+export default async function Image({
+  params,
+}: {
+  params: { locale: Locale };
+}) {
+  const data = getLocalizedData(
+    applyStoredResume(getDefaultVariant()),
+    params.locale
+  );
+  if (!data) notFound();
+
+  return createResumeImage(data);
+}
@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { generateResumeMetadata } from "@/lib/metadata";
+import { applyStoredResume } from "@/lib/resume-store";
+import type { Locale } from "@/lib/types";
+import {
+  getDefaultVariant,
+  getLocaleStaticParams,
+  getLocalizedData,
+} from "@/lib/variants";
+import { Resume } from "../components/Resume";
+
+interface ResumePageProps {
+  params: { locale: Locale };
+}
+
+// Only locales the default resume is translated into are routable
+export const dynamicParams = false;
+
+export const generateStaticParams = getLocaleStaticParams;
+
+export function generateMetadata({ params }: ResumePageProps): Metadata {
+  const variant = applyStoredResume(getDefaultVariant());
+  const data = getLocalizedData(variant, params.locale);
+  if (!data) return {};
+
+  return generateResumeMetadata(variant, data, params.locale);
+}
+
+export default function ResumePage({ params }: ResumePageProps) {
+  const data = getLocalizedData(
+    applyStoredResume(getDefaultVariant()),
+    params.locale
+  );
+  if (!data) notFound();
+
+  return <Resume data={data} locale={params.locale} />;
+}
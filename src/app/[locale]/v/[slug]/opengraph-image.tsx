@@ -0,0 +1,23 @@
+import { notFound } from "next/navigation";
+import { createResumeImage, OG_IMAGE_SIZE } from "@/lib/og-image";
+import type { Locale } from "@/lib/types";
+import { getLocalizedData, getVariant } from "@/lib/variants";
+
+export const runtime = "edge";
+
+export const alt = "Minimalist Resume";
+export const size = OG_IMAGE_SIZE;
+
+export const contentType = "image/png";
+
+export default async function Image({
+  params,
+}: {
+  params: { locale: Locale; slug: string };
+}) {
+  const variant = getVariant(params.slug);
+  const data = variant && getLocalizedData(variant, params.locale);
+  if (!data) notFound();
+
+  return createResumeImage(data);
+}
@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { generateResumeMetadata } from "@/lib/metadata";
+import type { Locale } from "@/lib/types";
+import {
+  DEFAULT_VARIANT_SLUG,
+  getLocalizedData,
+  getLocalizedVariantStaticParams,
+  getVariant,
+} from "@/lib/variants";
+import { Resume } from "../../../components/Resume";
+
+interface VariantPageProps {
+  params: { locale: Locale; slug: string };
+}
+
+// Only registered variants, in the locales they are translated into, are
+// routable
+export const dynamicParams = false;
+
+export const generateStaticParams = getLocalizedVariantStaticParams;
+
+export function generateMetadata({ params }: VariantPageProps): Metadata {
+  const variant = getVariant(params.slug);
+  const data = variant && getLocalizedData(variant, params.locale);
+  if (!variant || !data) return {};
+
+  return generateResumeMetadata(variant, data, params.locale);
+}
+
+export default function VariantPage({ params }: VariantPageProps) {
+  const variant = getVariant(params.slug);
+  if (!variant || variant.slug === DEFAULT_VARIANT_SLUG) notFound();
+
+  const data = getLocalizedData(variant, params.locale);
+  if (!data) notFound();
+
+  return <Resume data={data} locale={params.locale} />;
+}
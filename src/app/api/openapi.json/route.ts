@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/apollo/openapi";
+import { buildResumeSchema } from "@/apollo/schema";
+
+// The schema only changes with the code, so it is built once per server
+const document = buildResumeSchema().then(buildOpenApiDocument);
+
+export async function GET() {
+  return NextResponse.json(await document);
+}
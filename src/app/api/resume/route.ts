@@ -0,0 +1,6 @@
+import type { NextRequest } from "next/server";
+import { resumeResponse } from "@/apollo/rest";
+
+export function GET(request: NextRequest) {
+  return resumeResponse(request, (resume) => resume);
+}
@@ -0,0 +1,147 @@
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Section } from "@/components/ui/section";
+import type { RESUME_DATA } from "@/data/resume-data";
+import { formatResumeDate, hasLapsed } from "@/lib/dates";
+import { getMessages } from "@/lib/i18n";
+import type { Locale } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+type Certification = (typeof RESUME_DATA)["certifications"][number];
+
+interface CertificationDatesProps {
+  issued: Certification["issued"];
+  expires: Certification["expires"];
+  expired: boolean;
+  locale: Locale;
+}
+
+/**
+ * Displays the issue date and, when set, the expiry date
+ */
+function CertificationDates({
+  issued,
+  expires,
+  expired,
+  locale,
+}: CertificationDatesProps) {
+  const messages = getMessages(locale);
+
+  return (
+    <div className="text-sm tabular-nums text-gray-500">
+      {formatResumeDate(issued, locale)}
+      {expires && (
+        <span className={cn(expired && "font-semibold text-destructive")}>
+          {" – "}
+          {expired ? messages.expired : messages.expires}{" "}
+          {formatResumeDate(expires, locale)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface CertificationNameProps {
+  name: Certification["name"];
+  url: Certification["url"];
+  label: string;
+}
+
+/**
+ * Renders the credential name, linked to its verification page when known
+ */
+function CertificationName({ name, url, label }: CertificationNameProps) {
+  if (!url) {
+    return <span>{name}</span>;
+  }
+
+  return (
+    <a
+      className="hover:underline"
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      aria-label={label}
+    >
+      {name}
+    </a>
+  );
+}
+
+interface CertificationItemProps {
+  certification: Certification;
+  locale: Locale;
+}
+
+/**
+ * Individual certification card component
+ * Lapsed credentials are flagged so they are not mistaken for current ones
+ */
+function CertificationItem({ certification, locale }: CertificationItemProps) {
+  const { name, issuer, credentialId, issued, expires, url } = certification;
+  const expired = hasLapsed(expires);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-x-2 text-base">
+          <h3 className="font-semibold leading-none">
+            <CertificationName
+              name={name}
+              url={url}
+              label={getMessages(locale).verify(name)}
+            />
+          </h3>
+          <CertificationDates
+            issued={issued}
+            expires={expires}
+            expired={expired}
+            locale={locale}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="mt-2 text-foreground/80 print:text-[12px]">
+        {issuer}
+        {credentialId && (
+          <span className="font-mono text-xs text-gray-500">
+            {" · "}ID {credentialId}
+          </span>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CertificationsProps {
+  certifications: readonly Certification[];
+  locale: Locale;
+}
+
+/**
+ * Certifications section component
+ * Renders nothing when the resume has no certifications
+ */
+export function Certifications({
+  certifications,
+  locale,
+}: CertificationsProps) {
+  if (certifications.length === 0) return null;
+
+  return (
+    <Section>
+      <h2 className="text-xl font-bold" id="certifications-section">
+        {getMessages(locale).sections.certifications}
+      </h2>
+      <div
+        className="space-y-4"
+        role="feed"
+        aria-labelledby="certifications-section"
+      >
+        {certifications.map((item) => (
+          <article key={`${item.issuer}-${item.name}`}>
+            <CertificationItem certification={item} locale={locale} />
+          </article>
+        ))}
+      </div>
+    </Section>
+  );
+}
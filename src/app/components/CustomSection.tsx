@@ -0,0 +1,133 @@
+import { RichTextContent } from "@/components/rich-text";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Section } from "@/components/ui/section";
+import type { RESUME_DATA } from "@/data/resume-data";
+import { formatEntryDates } from "@/lib/custom-sections";
+import type { Locale } from "@/lib/types";
+
+type CustomSection = (typeof RESUME_DATA)["customSections"][number];
+type CustomEntry = CustomSection["entries"][number];
+
+function toSlug(text: string) {
+  return text.toLowerCase().replace(/\s+/g, "-");
+}
+
+interface EntryHeadingProps {
+  heading: CustomEntry["heading"];
+  link: CustomEntry["link"];
+}
+
+/**
+ * Renders the entry heading, linked when the entry has a URL
+ */
+function EntryHeading({ heading, link }: EntryHeadingProps) {
+  if (!link) {
+    return <span>{heading}</span>;
+  }
+
+  return (
+    <a
+      className="hover:underline"
+      href={link}
+      target="_blank"
+      rel="noopener noreferrer"
+    >
+      {heading}
+    </a>
+  );
+}
+
+interface EntryTagsProps {
+  tags: CustomEntry["tags"];
+}
+
+/**
+ * Renders the entry tags as badges
+ */
+function EntryTags({ tags = [] }: EntryTagsProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul className="mt-2 flex list-none flex-wrap gap-1 p-0 print:mt-1">
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Badge
+            variant="secondary"
+            className="text-xs print:px-1 print:py-0.5 print:text-[8px] print:leading-tight"
+          >
+            {tag}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface CustomEntryItemProps {
+  entry: CustomEntry;
+  locale: Locale;
+}
+
+/**
+ * Individual entry card, every field but the heading is optional
+ */
+function CustomEntryItem({ entry, locale }: CustomEntryItemProps) {
+  const { heading, subheading, description, tags, link } = entry;
+  const dates = formatEntryDates(entry, locale);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-x-2 text-base">
+          <h3 className="font-semibold leading-none">
+            <EntryHeading heading={heading} link={link} />
+          </h3>
+          {dates && (
+            <div className="text-sm tabular-nums text-gray-500">{dates}</div>
+          )}
+        </div>
+        {subheading && (
+          <p className="font-mono text-sm leading-none print:text-[12px]">
+            {subheading}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {description && (
+          <div className="mt-2 text-xs text-pretty text-foreground/80 print:mt-1 print:text-[10px]">
+            <RichTextContent content={description} />
+          </div>
+        )}
+        <EntryTags tags={tags} />
+      </CardContent>
+    </Card>
+  );
+}
+
+interface CustomSectionProps {
+  section: CustomSection;
+  locale: Locale;
+}
+
+/**
+ * Generic section for lists defined in data, such as Volunteering or Awards
+ */
+export function CustomSection({ section, locale }: CustomSectionProps) {
+  const headingId = `${toSlug(section.title)}-section`;
+
+  return (
+    <Section>
+      <h2 className="text-xl font-bold" id={headingId}>
+        {section.title}
+      </h2>
+      <div className="space-y-4" role="feed" aria-labelledby={headingId}>
+        {section.entries.map((entry) => (
+          <article key={`${entry.heading}-${entry.subheading ?? ""}`}>
+            <CustomEntryItem entry={entry} locale={locale} />
+          </article>
+        ))}
+      </div>
+    </Section>
+  );
+}
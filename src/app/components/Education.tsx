@@ -2,37 +2,42 @@ import React from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Section } from "@/components/ui/section";
 import type { RESUME_DATA } from "@/data/resume-data";
+import { formatDateRange, formatPeriod } from "@/lib/dates";
+import { getMessages } from "@/lib/i18n";
+import type { Locale } from "@/lib/types";
 
 type Education = (typeof RESUME_DATA)["education"][number];
 
 interface EducationPeriodProps {
   start: Education["start"];
   end: Education["end"];
+  locale: Locale;
 }
 
 /**
  * Displays the education period in a consistent format
  */
-function EducationPeriod({ start, end }: EducationPeriodProps) {
+function EducationPeriod({ start, end, locale }: EducationPeriodProps) {
   return (
     <div
       className="text-sm tabular-nums text-gray-500"
-      title={`Period: ${start} to ${end}`}
+      title={`${getMessages(locale).period}: ${formatDateRange(start, end, locale)}`}
     >
-      {start} - {end}
+      {formatPeriod(start, end, locale)}
     </div>
   );
 }
 
 interface EducationItemProps {
   education: Education;
+  locale: Locale;
 }
 
 /**
  * Individual education card component
  */
-function EducationItem({ education }: EducationItemProps) {
-  const { school, start, end, degree } = education;
+function EducationItem({ education, locale }: EducationItemProps) {
+  const { school, start, end, degree, area } = education;
 
   return (
     <Card>
@@ -44,7 +49,7 @@ function EducationItem({ education }: EducationItemProps) {
           >
             {school}
           </h3>
-          <EducationPeriod start={start} end={end} />
+          <EducationPeriod start={start} end={end} locale={locale} />
         </div>
       </CardHeader>
       <CardContent
@@ -53,7 +58,7 @@ function EducationItem({ education }: EducationItemProps) {
           .toLowerCase()
           .replace(/\s+/g, "-")}`}
       >
-        {degree}
+        {[degree, area].filter(Boolean).join(", ")}
       </CardContent>
     </Card>
   );
@@ -61,17 +66,18 @@ function EducationItem({ education }: EducationItemProps) {
 
 interface EducationListProps {
   education: readonly Education[];
+  locale: Locale;
 }
 
 /**
  * Main education section component
  * Renders a list of education experiences
  */
-export function Education({ education }: EducationListProps) {
+export function Education({ education, locale }: EducationListProps) {
   return (
     <Section>
       <h2 className="text-xl font-bold" id="education-section">
-        Education
+        {getMessages(locale).sections.education}
       </h2>
       <div
         className="space-y-4"
@@ -80,7 +86,7 @@ export function Education({ education }: EducationListProps) {
       >
         {education.map((item) => (
           <article key={item.school}>
-            <EducationItem education={item} />
+            <EducationItem education={item} locale={locale} />
           </article>
         ))}
       </div>
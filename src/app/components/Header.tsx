@@ -1,12 +1,13 @@
-import { GlobeIcon, MailIcon, PhoneIcon } from "lucide-react";
+import { GlobeIcon, LanguagesIcon, MailIcon, PhoneIcon } from "lucide-react";
 import Image, { type StaticImageData } from "next/image";
 import React from "react";
 import { Avatar } from "@/components/avatar";
 import { Button } from "@/components/ui/button";
 import { GitHubIcon, LinkedInIcon } from "@/components/icons";
 import { XIcon } from "@/components/icons/x-icon";
-import { RESUME_DATA } from "@/data/resume-data";
-import type { ResumeIcon, IconType } from "@/lib/types";
+import { getMessages, type Messages } from "@/lib/i18n";
+import { formatLanguage } from "@/lib/languages";
+import type { IconType, Locale, ResumeData } from "@/lib/types";
 
 // Type-safe icon mapping
 const ICON_MAP: Record<IconType, React.ComponentType<React.SVGProps<SVGSVGElement>>> = {
@@ -19,13 +20,15 @@ const ICON_MAP: Record<IconType, React.ComponentType<React.SVGProps<SVGSVGElemen
 } as const;
 
 interface LocationLinkProps {
-  location: typeof RESUME_DATA.location;
-  locationLink: typeof RESUME_DATA.locationLink;
+  location: ResumeData["location"];
+  locationLink: ResumeData["locationLink"];
+  label: string;
 }
 
 function LocationLink({
   location,
   locationLink,
+  label,
 }: LocationLinkProps) {
   return (
     <p className="max-w-md items-center text-pretty font-mono text-xs text-foreground">
@@ -34,7 +37,7 @@ function LocationLink({
         href={locationLink}
         target="_blank"
         rel="noopener noreferrer"
-        aria-label={`Location: ${location}`}
+        aria-label={label}
       >
         <GlobeIcon className="size-3" aria-hidden="true" />
         {location}
@@ -43,6 +46,31 @@ function LocationLink({
   );
 }
 
+interface LanguageListProps {
+  languages: ResumeData["languages"];
+  label: string;
+  locale: Locale;
+}
+
+/**
+ * Spoken languages on one line, e.g. `Vietnamese (Native) · English (C1)`
+ */
+function LanguageList({ languages, label, locale }: LanguageListProps) {
+  if (languages.length === 0) return null;
+
+  return (
+    <p className="inline-flex max-w-md gap-x-1.5 text-pretty font-mono text-xs leading-none text-foreground">
+      <LanguagesIcon className="size-3 shrink-0" aria-hidden="true" />
+      <span>
+        <span className="sr-only">{label}: </span>
+        {languages
+          .map((language) => formatLanguage(language, locale))
+          .join(" · ")}
+      </span>
+    </p>
+  );
+}
+
 interface SocialButtonProps {
   href: string;
   iconType: IconType;
@@ -71,25 +99,27 @@ function SocialButton({
 }
 
 interface ContactButtonsProps {
-  contact: typeof RESUME_DATA.contact;
+  contact: ResumeData["contact"];
   personalWebsiteUrl?: string;
+  messages: Messages;
 }
 
 function ContactButtons({
   contact,
   personalWebsiteUrl,
+  messages,
 }: ContactButtonsProps) {
   return (
     <ul
       className="flex list-none gap-x-1 pt-1 font-mono text-sm text-foreground/80 print:hidden"
-      aria-label="Contact links"
+      aria-label={messages.contactLinks}
     >
       {personalWebsiteUrl && (
         <li>
           <SocialButton
             href={personalWebsiteUrl}
             iconType="globe"
-            label="Personal website"
+            label={messages.personalWebsite}
           />
         </li>
       )}
@@ -98,7 +128,7 @@ function ContactButtons({
           <SocialButton
             href={`mailto:${contact.email}`}
             iconType="mail"
-            label="Email"
+            label={messages.email}
           />
         </li>
       )}
@@ -107,7 +137,7 @@ function ContactButtons({
           <SocialButton
             href={`tel:${contact.tel}`}
             iconType="phone"
-            label="Phone"
+            label={messages.phone}
           />
         </li>
       )}
@@ -125,7 +155,7 @@ function ContactButtons({
 }
 
 interface PrintContactProps {
-  contact: typeof RESUME_DATA.contact;
+  contact: ResumeData["contact"];
   personalWebsiteUrl?: string;
 }
 
@@ -169,41 +199,56 @@ function PrintContact({
   );
 }
 
+interface HeaderProps {
+  data: ResumeData;
+  locale: Locale;
+}
+
 /**
  * Header component displaying personal information and contact details
  */
-export function Header() {
+export function Header({ data, locale }: HeaderProps) {
+  const messages = getMessages(locale);
+
   return (
     <header className="flex items-center justify-between">
       <div className="flex-1 space-y-1.5">
         <h1 className="text-2xl font-bold" id="resume-name">
-          {RESUME_DATA.name}
+          {data.name}
         </h1>
         <p className="max-w-md text-pretty font-mono text-sm text-foreground/80 print:text-[12px]">
-          {RESUME_DATA.about}
+          {data.about}
         </p>
 
         <LocationLink
-          location={RESUME_DATA.location}
-          locationLink={RESUME_DATA.locationLink}
+          location={data.location}
+          locationLink={data.locationLink}
+          label={messages.locationOf(data.location)}
+        />
+
+        <LanguageList
+          languages={data.languages}
+          label={messages.languages}
+          locale={locale}
         />
 
         <ContactButtons
-          contact={RESUME_DATA.contact}
-          personalWebsiteUrl={RESUME_DATA.personalWebsiteUrl}
+          contact={data.contact}
+          personalWebsiteUrl={data.personalWebsiteUrl}
+          messages={messages}
         />
 
         <PrintContact
-          contact={RESUME_DATA.contact}
-          personalWebsiteUrl={RESUME_DATA.personalWebsiteUrl}
+          contact={data.contact}
+          personalWebsiteUrl={data.personalWebsiteUrl}
         />
       </div>
 
       <Avatar
         className="size-28"
-        src={RESUME_DATA.avatarUrl}
-        alt={`${RESUME_DATA.name}'s profile picture`}
-        fallback={RESUME_DATA.initials}
+        src={data.avatarUrl}
+        alt={messages.profilePictureOf(data.name)}
+        fallback={data.initials}
       />
     </header>
   );
@@ -7,14 +7,55 @@ import {
   CardHeader,
   CardTitle,
 } from "../../components/ui/card";
+import {
+  type FilterableProject,
+  ProjectFilters,
+} from "../../components/project-filters";
 import { Section } from "../../components/ui/section";
 import type { RESUME_DATA } from "../../data/resume-data";
+import { formatMetric } from "../../lib/achievements";
+import { formatEntryDates } from "../../lib/custom-sections";
+import { getMessages } from "../../lib/i18n";
+import type { Locale, ProjectStatus } from "../../lib/types";
+import { cn } from "../../lib/utils";
 
+type Project = (typeof RESUME_DATA)["projects"][number];
 type ProjectTags = readonly string[];
 
+const STATUS_COLORS: Record<ProjectStatus, string> = {
+  active: "bg-green-500",
+  maintained: "bg-amber-500",
+  archived: "bg-gray-400",
+};
+
+interface StatusIndicatorProps {
+  status?: ProjectStatus;
+  label?: string;
+}
+
+/**
+ * Coloured dot showing whether the project is still worked on
+ */
+function StatusIndicator({ status, label }: StatusIndicatorProps) {
+  if (!status) return null;
+
+  return (
+    <span
+      className={cn("size-1 shrink-0 rounded-full", STATUS_COLORS[status])}
+      title={label}
+      role="img"
+      aria-label={label}
+    />
+  );
+}
+
 interface ProjectLinkProps {
   title: string;
   link?: string;
+  status?: ProjectStatus;
+  statusLabel?: string;
+  /** Accessible name of the link */
+  label: string;
 }
 
 /**
@@ -23,9 +64,17 @@ interface ProjectLinkProps {
 function ProjectLink({
   title,
   link,
+  status,
+  statusLabel,
+  label,
 }: ProjectLinkProps) {
   if (!link) {
-    return <span>{title}</span>;
+    return (
+      <span className="inline-flex items-center gap-1">
+        {title}
+        <StatusIndicator status={status} label={statusLabel} />
+      </span>
+    );
   }
 
   return (
@@ -35,14 +84,10 @@ function ProjectLink({
         target="_blank"
         rel="noopener noreferrer"
         className="inline-flex items-center gap-1 hover:underline"
-        aria-label={`${title} project (opens in new tab)`}
+        aria-label={label}
       >
         {title}
-        <span
-          className="size-1 rounded-full bg-green-500"
-          title="Active project indicator"
-          aria-hidden="true"
-        />
+        <StatusIndicator status={status} label={statusLabel} />
       </a>
       <div
         className="hidden font-mono text-xs underline print:visible"
@@ -56,6 +101,7 @@ function ProjectLink({
 
 interface ProjectTagsProps {
   tags: ProjectTags;
+  label: string;
 }
 
 /**
@@ -63,13 +109,14 @@ interface ProjectTagsProps {
  */
 function ProjectTags({
   tags,
+  label,
 }: ProjectTagsProps) {
   if (tags.length === 0) return null;
 
   return (
     <ul
       className="mt-2 flex list-none flex-wrap gap-1 p-0"
-      aria-label="Technologies used"
+      aria-label={label}
     >
       {tags.map((tag) => (
         <li key={tag}>
@@ -85,39 +132,82 @@ function ProjectTags({
   );
 }
 
+interface ProjectOutcomesProps {
+  outcomes: Project["outcomes"];
+  label: string;
+}
+
+/**
+ * Renders outcomes as bullets with the metric highlighted
+ */
+function ProjectOutcomes({ outcomes = [], label }: ProjectOutcomesProps) {
+  if (outcomes.length === 0) return null;
+
+  return (
+    <ul
+      className="list-inside list-disc text-xs text-foreground/80 print:text-[10px]"
+      aria-label={label}
+    >
+      {outcomes.map((outcome) => (
+        <li key={outcome.text}>
+          {outcome.metric && (
+            <strong className="font-semibold tabular-nums text-foreground">
+              {formatMetric(outcome.metric)}{" "}
+            </strong>
+          )}
+          {outcome.text}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 interface ProjectCardProps {
-  title: string;
-  description: string;
-  tags: ProjectTags;
-  link?: string;
+  project: Project;
+  locale: Locale;
 }
 
 /**
  * Card component displaying project information
  */
 function ProjectCard({
-  title,
-  description,
-  tags,
-  link,
+  project,
+  locale,
 }: ProjectCardProps) {
+  const { title, description, techStack, link, status, role, outcomes } =
+    project;
+  const messages = getMessages(locale);
+  const details = [role, formatEntryDates(project, locale)].filter(Boolean);
+
   return (
     <Card className="flex h-full flex-col overflow-hidden border p-3">
       <CardHeader>
         <div className="space-y-1">
           <CardTitle className="text-base">
-            <ProjectLink title={title} link={link} />
+            <ProjectLink
+              title={title}
+              link={link?.href}
+              status={status}
+              statusLabel={status && messages.projectFilters.statuses[status]}
+              label={messages.projectLink(title)}
+            />
           </CardTitle>
+          {details.length > 0 && (
+            <p className="text-xs tabular-nums text-gray-500 print:text-[10px]">
+              {details.join(" · ")}
+            </p>
+          )}
           <CardDescription
             className="text-pretty font-mono text-xs print:text-[10px]"
-            aria-label="Project description"
+            aria-label={messages.projectDescription}
           >
             {description}
           </CardDescription>
+          <ProjectOutcomes outcomes={outcomes} label={messages.outcomes} />
         </div>
       </CardHeader>
       <CardContent className="mt-auto flex">
-        <ProjectTags tags={tags} />
+        <ProjectTags tags={techStack} label={messages.technologiesUsed} />
       </CardContent>
     </Card>
   );
@@ -125,38 +215,37 @@ function ProjectCard({
 
 interface ProjectsProps {
   projects: (typeof RESUME_DATA)["projects"];
+  locale: Locale;
 }
 
 /**
  * Section component displaying all side projects
+ * Cards render on the server, filtering and sorting happen on the client
  */
 export function Projects({
   projects,
+  locale,
 }: ProjectsProps) {
+  const messages = getMessages(locale);
+  const cards: FilterableProject[] = projects.map((project) => ({
+    key: project.title,
+    status: project.status,
+    start: project.start,
+    end: project.end,
+    card: <ProjectCard project={project} locale={locale} />,
+  }));
+
   return (
     <Section className="scroll-mb-16 print:space-y-4">
       <h2 className="text-xl font-bold" id="side-projects">
-        Highlight projects
+        {messages.sections.projects}
       </h2>
-      <div
+      <ProjectFilters
+        projects={cards}
+        labels={messages.projectFilters}
+        labelledBy="side-projects"
         className="-mx-3 grid grid-cols-1 gap-3 md:grid-cols-2 lg:grid-cols-3 print:grid-cols-3 print:gap-2"
-        role="feed"
-        aria-labelledby="side-projects"
-      >
-        {projects.map((project) => (
-          <article
-            key={project.title}
-            className="h-full" // Added h-full here
-          >
-            <ProjectCard
-              title={project.title}
-              description={project.description}
-              tags={project.techStack}
-              link={project.link?.href}
-            />
-          </article>
-        ))}
-      </div>
+      />
     </Section>
   );
 }
@@ -0,0 +1,120 @@
+import { Section } from "@/components/ui/section";
+import type { RESUME_DATA } from "@/data/resume-data";
+import { formatResumeDate } from "@/lib/dates";
+import { getMessages } from "@/lib/i18n";
+import { formatCitation } from "@/lib/publications";
+import type { Locale } from "@/lib/types";
+
+type Publication = (typeof RESUME_DATA)["publications"][number];
+
+interface PublicationTitleProps {
+  title: Publication["title"];
+  url: Publication["url"];
+}
+
+/**
+ * Renders the title, linked to the article or recording when known
+ */
+function PublicationTitle({ title, url }: PublicationTitleProps) {
+  if (!url) {
+    return <span>{title}</span>;
+  }
+
+  return (
+    <a
+      className="hover:underline"
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+    >
+      {title}
+    </a>
+  );
+}
+
+interface PublicationItemProps {
+  publication: Publication;
+  author: string;
+  locale: Locale;
+}
+
+/**
+ * Individual publication entry
+ * Shows venue, date and co-authors on screen, and a one-line citation in print
+ */
+function PublicationItem({
+  publication,
+  author,
+  locale,
+}: PublicationItemProps) {
+  const { type, title, venue, date, coAuthors = [], url } = publication;
+  const messages = getMessages(locale);
+
+  return (
+    <>
+      <div className="print:hidden">
+        <div className="flex items-center justify-between gap-x-2 text-base">
+          <h3 className="font-semibold leading-none">
+            <PublicationTitle title={title} url={url} />
+          </h3>
+          <div className="text-sm tabular-nums text-gray-500">
+            {formatResumeDate(date, locale)}
+          </div>
+        </div>
+        <div className="mt-1 text-sm text-foreground/80">
+          {messages.publicationTypes[type]} · {venue}
+          {coAuthors.length > 0 && (
+            <span className="text-gray-500">
+              {" · "}
+              {messages.with} {coAuthors.join(", ")}
+            </span>
+          )}
+        </div>
+      </div>
+      <p className="hidden text-[12px] text-foreground/80 print:block">
+        {formatCitation(publication, author, locale)}
+      </p>
+    </>
+  );
+}
+
+interface PublicationsProps {
+  publications: readonly Publication[];
+  author: string;
+  locale: Locale;
+}
+
+/**
+ * Publications and talks section component
+ * Renders nothing when the resume has no publications
+ */
+export function Publications({
+  publications,
+  author,
+  locale,
+}: PublicationsProps) {
+  if (publications.length === 0) return null;
+
+  return (
+    <Section>
+      <h2 className="text-xl font-bold" id="publications-section">
+        {getMessages(locale).sections.publications}
+      </h2>
+      <div
+        className="space-y-4 print:space-y-1"
+        role="feed"
+        aria-labelledby="publications-section"
+      >
+        {publications.map((item) => (
+          <article key={`${item.venue}-${item.title}`}>
+            <PublicationItem
+              publication={item}
+              author={author}
+              locale={locale}
+            />
+          </article>
+        ))}
+      </div>
+    </Section>
+  );
+}
@@ -0,0 +1,204 @@
+import { type ReactNode, Suspense } from "react";
+import { CommandMenu } from "@/components/command-menu";
+import { SectionErrorBoundary } from "@/components/section-error-boundary";
+import { SectionSkeleton } from "@/components/section-skeleton";
+import { getMessages } from "@/lib/i18n";
+import { limitSectionItems, orderSections } from "@/lib/layout";
+import { generateResumeStructuredData } from "@/lib/structured-data";
+import type { Locale, ResumeData, ResumeSection } from "@/lib/types";
+import { Certifications } from "./Certifications";
+import { CustomSection } from "./CustomSection";
+import { Education } from "./Education";
+import { Header } from "./Header";
+import { Projects } from "./Projects";
+import { Publications } from "./Publications";
+import { Skills } from "./Skills";
+import { Summary } from "./Summary";
+import { WorkExperience } from "./WorkExperience";
+
+/**
+ * Transform social links for command menu
+ */
+function getCommandMenuLinks(data: ResumeData, locale: Locale) {
+  const links = [];
+
+  if (data.personalWebsiteUrl) {
+    links.push({
+      url: data.personalWebsiteUrl,
+      title: getMessages(locale).personalWebsite,
+    });
+  }
+
+  return [
+    ...links,
+    ...data.contact.social.map((socialMediaLink) => ({
+      url: socialMediaLink.url,
+      title: socialMediaLink.name,
+    })),
+  ];
+}
+
+interface SectionConfig {
+  /** Name reported by the error boundary */
+  label: string;
+  /** Skeleton height while loading */
+  lines: number;
+  render: (data: ResumeData, locale: Locale) => ReactNode;
+}
+
+const SECTIONS: Record<ResumeSection, SectionConfig> = {
+  summary: {
+    label: "Summary",
+    lines: 2,
+    render: (data, locale) => (
+      <Summary summary={data.summary} locale={locale} />
+    ),
+  },
+  work: {
+    label: "Work Experience",
+    lines: 6,
+    render: (data, locale) => (
+      <WorkExperience work={data.work} locale={locale} />
+    ),
+  },
+  education: {
+    label: "Education",
+    lines: 3,
+    render: (data, locale) => (
+      <Education education={data.education} locale={locale} />
+    ),
+  },
+  certifications: {
+    label: "Certifications",
+    lines: 2,
+    render: (data, locale) => (
+      <Certifications certifications={data.certifications} locale={locale} />
+    ),
+  },
+  skills: {
+    label: "Skills",
+    lines: 2,
+    render: (data, locale) => <Skills skills={data.skills} locale={locale} />,
+  },
+  projects: {
+    label: "Projects",
+    lines: 5,
+    render: (data, locale) => (
+      <Projects projects={data.projects} locale={locale} />
+    ),
+  },
+  publications: {
+    label: "Publications",
+    lines: 3,
+    render: (data, locale) => (
+      <Publications
+        publications={data.publications}
+        author={data.name}
+        locale={locale}
+      />
+    ),
+  },
+};
+
+function sectionConfig(name: string, data: ResumeData): SectionConfig | null {
+  if (name in SECTIONS) return SECTIONS[name as ResumeSection];
+
+  const section = data.customSections.find((item) => item.title === name);
+  if (!section) return null;
+
+  return {
+    label: section.title,
+    lines: 3,
+    render: (_data, locale) => (
+      <CustomSection section={section} locale={locale} />
+    ),
+  };
+}
+
+interface LayoutSectionProps {
+  name: string;
+  data: ResumeData;
+  locale: Locale;
+}
+
+/**
+ * One section below the header, built-in or custom, with its own error
+ * boundary and loading state
+ */
+function LayoutSection({ name, data, locale }: LayoutSectionProps) {
+  const config = sectionConfig(name, data);
+  if (!config) return null;
+
+  return (
+    <SectionErrorBoundary sectionName={config.label}>
+      <Suspense fallback={<SectionSkeleton lines={config.lines} />}>
+        {config.render(data, locale)}
+      </Suspense>
+    </SectionErrorBoundary>
+  );
+}
+
+interface ResumeProps {
+  data: ResumeData;
+  locale: Locale;
+}
+
+/**
+ * Full resume layout shared by the default page and every variant route.
+ * `data.layout` decides which sections follow the header, in which order and
+ * how many items each shows
+ */
+export function Resume({ data, locale }: ResumeProps) {
+  const structuredData = generateResumeStructuredData(data, locale);
+  const messages = getMessages(locale);
+  const visible = limitSectionItems(data);
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        // biome-ignore lint/security/noDangerouslySetInnerHtml: Safe for JSON-LD structured data
+        dangerouslySetInnerHTML={{
+          __html: JSON.stringify(structuredData),
+        }}
+      />
+      <main
+        className="container relative mx-auto scroll-my-12 overflow-auto p-4 print:p-11 md:p-16"
+        id="main-content"
+      >
+        <div className="sr-only">
+          <h1>{messages.resumeOf(data.name)}</h1>
+        </div>
+
+        <section
+          className="mx-auto w-full max-w-2xl space-y-8 bg-white print:space-y-4"
+          aria-label={messages.resumeContent}
+        >
+          <SectionErrorBoundary sectionName="Header">
+            <Suspense fallback={<SectionSkeleton lines={4} />}>
+              <Header data={data} locale={locale} />
+            </Suspense>
+          </SectionErrorBoundary>
+
+          <div className="space-y-8 print:space-y-4">
+            {orderSections(data).map((name) => (
+              <LayoutSection
+                key={name}
+                name={name}
+                data={visible}
+                locale={locale}
+              />
+            ))}
+          </div>
+        </section>
+
+        <nav className="print:hidden" aria-label={messages.quickNavigation}>
+          <CommandMenu
+            links={getCommandMenuLinks(data, locale)}
+            labels={messages.commandMenu}
+          />
+        </nav>
+      </main>
+    </>
+  );
+}
@@ -1,51 +1,89 @@
 import React from "react";
 import { Badge } from "@/components/ui/badge";
 import { Section } from "@/components/ui/section";
+import type { RESUME_DATA } from "@/data/resume-data";
+import { getMessages } from "@/lib/i18n";
+import type { Locale } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
-type Skills = readonly string[];
+type SkillGroups = (typeof RESUME_DATA)["skills"];
+type Skill = SkillGroups[number]["skills"][number];
+
+/**
+ * Level and last-used year, e.g. `Expert · 2019`
+ */
+function skillDetails({ level, lastUsed }: Skill, locale: Locale) {
+  const { skillLevels } = getMessages(locale);
+  return [level && skillLevels[level], lastUsed].filter(Boolean).join(" · ");
+}
 
 interface SkillsListProps {
-  skills: Skills;
+  skills: Skill[];
+  locale: Locale;
   className?: string;
 }
 
 /**
  * Renders a list of skills as badges
  */
-function SkillsList({ skills, className }: SkillsListProps) {
+function SkillsList({ skills, locale, className }: SkillsListProps) {
+  const messages = getMessages(locale);
+
   return (
     <ul
       className={cn("flex list-none flex-wrap gap-1 p-0", className)}
-      aria-label="List of skills"
+      aria-label={messages.skillList}
     >
-      {skills.map((skill) => (
-        <li key={skill}>
-          <Badge className="print:text-[10px]" aria-label={`Skill: ${skill}`}>
-            {skill}
-          </Badge>
-        </li>
-      ))}
+      {skills.map((skill) => {
+        const details = skillDetails(skill, locale);
+
+        return (
+          <li key={skill.name}>
+            <Badge
+              className="print:text-[10px]"
+              aria-label={messages.skillOf(skill.name, details)}
+            >
+              {skill.name}
+              {details && (
+                <span className="ml-1 font-normal opacity-70">{details}</span>
+              )}
+            </Badge>
+          </li>
+        );
+      })}
     </ul>
   );
 }
 
 interface SkillsProps {
-  skills: Skills;
+  skills: SkillGroups;
+  locale: Locale;
   className?: string;
 }
 
 /**
  * Skills section component
- * Displays a list of professional skills as badges
+ * Displays professional skills as badges, one row per group
  */
-export function Skills({ skills, className }: SkillsProps) {
+export function Skills({ skills, locale, className }: SkillsProps) {
   return (
     <Section className={className}>
       <h2 className="text-xl font-bold" id="skills-section">
-        Skills
+        {getMessages(locale).sections.skills}
       </h2>
-      <SkillsList skills={skills} aria-labelledby="skills-section" />
+      <div className="space-y-2 print:space-y-1">
+        {skills.map((group) => (
+          <div
+            key={group.name}
+            className="gap-x-3 sm:grid sm:grid-cols-[9rem_1fr] print:grid print:grid-cols-[7rem_1fr]"
+          >
+            <h3 className="mb-1 text-sm font-semibold sm:mb-0 sm:pt-0.5 print:mb-0 print:text-[11px]">
+              {group.name}
+            </h3>
+            <SkillsList skills={group.skills} locale={locale} />
+          </div>
+        ))}
+      </div>
     </Section>
   );
 }
@@ -1,9 +1,13 @@
 import React from "react";
+import { RichTextContent } from "@/components/rich-text";
 import type { RESUME_DATA } from "@/data/resume-data";
+import { getMessages } from "@/lib/i18n";
+import type { Locale } from "@/lib/types";
 import { Section } from "../../components/ui/section";
 
 interface AboutProps {
   summary: typeof RESUME_DATA.summary;
+  locale: Locale;
   className?: string;
 }
 
@@ -11,14 +15,14 @@ interface AboutProps {
  * Summary section component
  * Displays a summary of professional experience and goals
  */
-export function Summary({ summary, className }: AboutProps) {
+export function Summary({ summary, locale, className }: AboutProps) {
   return (
     <Section className={className}>
       <h2 className="text-xl font-bold" id="about-section">
-        About
+        {getMessages(locale).sections.summary}
       </h2>
       <div className="text-pretty font-mono text-sm text-foreground/80 print:text-[12px]">
-        {summary}
+        <RichTextContent content={summary} />
       </div>
     </Section>
   );
@@ -1,16 +1,29 @@
 import React from "react";
+import { CompanyLogo } from "@/components/company-logo";
+import { RichTextContent } from "@/components/rich-text";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Section } from "@/components/ui/section";
 import type { RESUME_DATA } from "@/data/resume-data";
+import { formatMetric } from "@/lib/achievements";
+import {
+  formatDateRange,
+  formatPeriod,
+  toIsoDate,
+  workPeriod,
+} from "@/lib/dates";
+import { getMessages } from "@/lib/i18n";
+import type { Locale } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
 type WorkExperience = (typeof RESUME_DATA)["work"][number];
+type WorkRole = WorkExperience["roles"][number];
 type WorkBadges = readonly string[];
 
 interface BadgeListProps {
   className?: string;
   badges: WorkBadges;
+  label: string;
 }
 
 /**
@@ -20,13 +33,14 @@ interface BadgeListProps {
 function BadgeList({
   className,
   badges,
+  label,
 }: BadgeListProps) {
   if (badges.length === 0) return null;
 
   return (
     <ul
       className={cn("inline-flex list-none gap-x-1 p-0", className)}
-      aria-label="Technologies used"
+      aria-label={label}
     >
       {badges.map((badge) => (
         <li key={badge}>
@@ -43,8 +57,9 @@ function BadgeList({
 }
 
 interface WorkPeriodProps {
-  start: WorkExperience["start"];
-  end?: WorkExperience["end"];
+  start: WorkRole["start"];
+  end?: WorkRole["end"];
+  locale: Locale;
 }
 
 /**
@@ -52,14 +67,17 @@ interface WorkPeriodProps {
  */
 function WorkPeriod({
   start,
-  end,
+  end = null,
+  locale,
 }: WorkPeriodProps) {
+  const { employmentPeriod } = getMessages(locale);
+
   return (
     <div
       className="text-sm tabular-nums text-gray-500"
-      title={`Employment period: ${start} to ${end ?? "Present"}`}
+      title={`${employmentPeriod}: ${formatDateRange(start, end, locale)}`}
     >
-      {start} - {end ?? "Present"}
+      {formatPeriod(start, end, locale)}
     </div>
   );
 }
@@ -67,6 +85,7 @@ function WorkPeriod({
 interface CompanyLinkProps {
   company: WorkExperience["company"];
   link: WorkExperience["link"];
+  label: string;
 }
 
 /**
@@ -75,60 +94,169 @@ interface CompanyLinkProps {
 function CompanyLink({
   company,
   link,
+  label,
 }: CompanyLinkProps) {
+  if (!link) {
+    return <span>{company}</span>;
+  }
+
   return (
     <a
       className="hover:underline"
       href={link}
       target="_blank"
       rel="noopener noreferrer"
-      aria-label={`${company} company website`}
+      aria-label={label}
     >
       {company}
     </a>
   );
 }
 
+interface AchievementListProps {
+  achievements: WorkRole["achievements"];
+  label: string;
+}
+
+/**
+ * Renders achievements as bullets with the metric highlighted
+ */
+function AchievementList({
+  achievements = [],
+  label,
+}: AchievementListProps) {
+  if (achievements.length === 0) return null;
+
+  return (
+    <ul
+      className="mt-1 list-inside list-disc text-xs text-foreground/80 print:text-[10px]"
+      aria-label={label}
+    >
+      {achievements.map((achievement) => (
+        <li key={achievement.text}>
+          {achievement.metric && (
+            <strong className="font-semibold tabular-nums text-foreground">
+              {formatMetric(achievement.metric)}{" "}
+            </strong>
+          )}
+          {achievement.text}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface RoleTitleProps {
+  title: WorkRole["title"];
+}
+
+function RoleTitle({ title }: RoleTitleProps) {
+  return (
+    <h4 className="font-mono text-sm font-semibold leading-none print:text-[12px]">
+      {title}
+    </h4>
+  );
+}
+
+interface RoleDetailsProps {
+  role: WorkRole;
+  achievementsLabel: string;
+}
+
+/**
+ * Description and achievements of a single position
+ */
+function RoleDetails({ role, achievementsLabel }: RoleDetailsProps) {
+  return (
+    <>
+      <div className="mt-2 text-xs text-foreground/80 print:mt-1 print:text-[10px] text-pretty">
+        <RichTextContent content={role.description} />
+      </div>
+      <AchievementList
+        achievements={role.achievements}
+        label={achievementsLabel}
+      />
+    </>
+  );
+}
+
 interface WorkExperienceItemProps {
   work: WorkExperience;
+  locale: Locale;
 }
 
 /**
  * Individual work experience card component
+ * A single role sits under the company header, several roles are listed
+ * most recent first, each with its own title and period
  * Handles responsive layout for badges (mobile/desktop)
  */
 function WorkExperienceItem({
   work,
+  locale,
 }: WorkExperienceItemProps) {
-  const { company, link, badges, title, start, end, description } = work;
+  const { company, link, logo, badges, roles } = work;
+  const { start, end } = workPeriod(work);
+  const [singleRole] = roles.length === 1 ? roles : [];
+  const messages = getMessages(locale);
 
   return (
     <Card className="py-1 print:py-0">
       <CardHeader className="print:space-y-1">
         <div className="flex items-center justify-between gap-x-2 text-base">
           <h3 className="inline-flex items-center justify-center gap-x-1 font-semibold leading-none print:text-sm">
-            <CompanyLink company={company} link={link} />
+            {logo && (
+              <CompanyLogo className="mr-1" logo={logo} company={company} />
+            )}
+            <CompanyLink
+              company={company}
+              link={link}
+              label={messages.companyWebsite(company)}
+            />
             <BadgeList
               className="hidden gap-x-1 sm:inline-flex"
               badges={badges}
+              label={messages.technologiesUsed}
             />
           </h3>
-          <WorkPeriod start={start} end={end} />
+          <WorkPeriod start={start} end={end} locale={locale} />
         </div>
 
-        <h4 className="font-mono text-sm font-semibold leading-none print:text-[12px]">
-          {title}
-        </h4>
+        {singleRole && <RoleTitle title={singleRole.title} />}
       </CardHeader>
 
       <CardContent>
-        <div className="mt-2 text-xs text-foreground/80 print:mt-1 print:text-[10px] text-pretty">
-          {description}
-        </div>
+        {singleRole ? (
+          <RoleDetails
+            role={singleRole}
+            achievementsLabel={messages.keyAchievements}
+          />
+        ) : (
+          roles.map((role) => (
+            <div
+              key={`${role.title}-${toIsoDate(role.start)}`}
+              className="mt-3 border-l-2 border-muted pl-3 print:mt-1.5"
+            >
+              <div className="flex items-center justify-between gap-x-2">
+                <RoleTitle title={role.title} />
+                <WorkPeriod
+                  start={role.start}
+                  end={role.end}
+                  locale={locale}
+                />
+              </div>
+              <RoleDetails
+                role={role}
+                achievementsLabel={messages.keyAchievements}
+              />
+            </div>
+          ))
+        )}
         <div className="mt-2">
           <BadgeList
             className="-mx-2 flex-wrap gap-1 sm:hidden"
             badges={badges}
+            label={messages.technologiesUsed}
           />
         </div>
       </CardContent>
@@ -138,6 +266,7 @@ function WorkExperienceItem({
 
 interface WorkExperienceProps {
   work: (typeof RESUME_DATA)["work"];
+  locale: Locale;
 }
 
 /**
@@ -146,11 +275,12 @@ interface WorkExperienceProps {
  */
 export function WorkExperience({
   work,
+  locale,
 }: WorkExperienceProps) {
   return (
     <Section>
       <h2 className="text-xl font-bold" id="work-experience">
-        Work Experience
+        {getMessages(locale).sections.work}
       </h2>
       <div
         className="space-y-4 print:space-y-0"
@@ -158,8 +288,8 @@ export function WorkExperience({
         aria-labelledby="work-experience"
       >
         {work.map((item) => (
-          <article key={`${item.company}-${item.start}`}>
-            <WorkExperienceItem work={item} />
+          <article key={item.company}>
+            <WorkExperienceItem work={item} locale={locale} />
           </article>
         ))}
       </div>
@@ -1,34 +1,38 @@
-import "reflect-metadata";
-
 import { ApolloServer } from "@apollo/server";
 import { ApolloServerPluginLandingPageLocalDefault } from "@apollo/server/plugin/landingPage/default";
 import { startServerAndCreateNextHandler } from "@as-integrations/next";
 import { type NextRequest, NextResponse } from "next/server";
-import { buildSchema } from "type-graphql";
-import { MeResolver } from "../../apollo/resolvers";
+import { type ApiContext, isAuthorizedRequest } from "../../apollo/auth";
+import {
+  API_LIMITS,
+  checkRateLimit,
+  queryLimits,
+} from "../../apollo/limits";
+import { buildResumeSchema } from "../../apollo/schema";
 
-let apolloServer: ApolloServer;
+let apolloServer: ApolloServer<ApiContext>;
 let handler: any;
 
 try {
-  const schema = await buildSchema({
-    resolvers: [MeResolver],
-  });
+  const schema = await buildResumeSchema();
 
-  apolloServer = new ApolloServer({
+  apolloServer = new ApolloServer<ApiContext>({
     schema,
     plugins: [ApolloServerPluginLandingPageLocalDefault()],
     introspection: process.env.NODE_ENV !== "production",
+    validationRules: [queryLimits(API_LIMITS)],
     formatError: (err) => {
       // Log error for debugging in development
       if (process.env.NODE_ENV !== "production") {
         console.error("GraphQL Error:", err);
       }
 
-      // Return sanitized error for production
+      // Return sanitized error for production, errors raised on purpose
+      // (bad input, access denied) keep their message
       return {
         message:
-          process.env.NODE_ENV === "production"
+          process.env.NODE_ENV === "production" &&
+          err.extensions?.code === "INTERNAL_SERVER_ERROR"
             ? "Internal server error"
             : err.message,
         code: err.extensions?.code,
@@ -37,9 +41,15 @@ try {
     },
   });
 
-  handler = startServerAndCreateNextHandler<NextRequest>(apolloServer, {
-    context: async (req) => ({ req }),
-  });
+  handler = startServerAndCreateNextHandler<NextRequest, ApiContext>(
+    apolloServer,
+    {
+      context: async (req) => {
+        checkRateLimit(req);
+        return { req, authorized: isAuthorizedRequest(req) };
+      },
+    }
+  );
 } catch (error) {
   console.error("Failed to initialize Apollo Server:", error);
 
@@ -0,0 +1,13 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { withholdContact } from "@/apollo/rest";
+import { resumeDataToJsonResume } from "@/lib/json-resume";
+import { applyStoredResume } from "@/lib/resume-store";
+import { getDefaultVariant } from "@/lib/variants";
+
+export function GET(request: NextRequest) {
+  return NextResponse.json(
+    resumeDataToJsonResume(
+      withholdContact(applyStoredResume(getDefaultVariant()).data, request)
+    )
+  );
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { withholdContact } from "@/apollo/rest";
+import { resumeDataToJsonResume } from "@/lib/json-resume";
+import {
+  DEFAULT_VARIANT_SLUG,
+  getVariant,
+  getVariantStaticParams,
+} from "@/lib/variants";
+
+export const dynamicParams = false;
+
+export const generateStaticParams = getVariantStaticParams;
+
+export function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const variant = getVariant(params.slug);
+  if (!variant || variant.slug === DEFAULT_VARIANT_SLUG) {
+    return NextResponse.json({ error: "Resume not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(
+    resumeDataToJsonResume(withholdContact(variant.data, request))
+  );
+}
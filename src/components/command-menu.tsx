@@ -11,13 +11,15 @@ import {
   CommandList,
   CommandSeparator,
 } from "@/components/ui/command";
+import type { CommandMenuMessages } from "@/lib/i18n";
 import { Button } from "./ui/button";
 
 interface Props {
   links: { url: string; title: string }[];
+  labels: CommandMenuMessages;
 }
 
-export const CommandMenu = ({ links }: Props) => {
+export const CommandMenu = ({ links, labels }: Props) => {
   const [open, setOpen] = React.useState(false);
   const isMac: boolean =
     typeof window !== "undefined"
@@ -39,11 +41,11 @@ export const CommandMenu = ({ links }: Props) => {
   return (
     <>
       <p className="fixed bottom-0 left-0 right-0 hidden border-t border-t-muted bg-white p-1 text-center text-sm text-muted-foreground xl:block print:hidden">
-        Press{" "}
+        {labels.press}{" "}
         <kbd className="pointer-events-none inline-flex h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground opacity-100">
           <span className="text-xs">{isMac ? "⌘" : "Ctrl"}</span>+J
         </kbd>{" "}
-        to open the command menu
+        {labels.toOpen}
       </p>
       <Button
         onClick={() => setOpen((open) => !open)}
@@ -54,20 +56,20 @@ export const CommandMenu = ({ links }: Props) => {
         <CommandIcon className="my-6 size-6" />
       </Button>
       <CommandDialog open={open} onOpenChange={setOpen}>
-        <CommandInput placeholder="Type a command or search..." />
+        <CommandInput placeholder={labels.placeholder} />
         <CommandList>
-          <CommandEmpty>No results found.</CommandEmpty>
-          <CommandGroup heading="Actions">
+          <CommandEmpty>{labels.empty}</CommandEmpty>
+          <CommandGroup heading={labels.actions}>
             <CommandItem
               onSelect={() => {
                 setOpen(false);
                 window.print();
               }}
             >
-              <span>Print</span>
+              <span>{labels.print}</span>
             </CommandItem>
           </CommandGroup>
-          <CommandGroup heading="Links">
+          <CommandGroup heading={labels.links}>
             {links.map(({ url, title }) => (
               <CommandItem
                 key={url}
@@ -0,0 +1,62 @@
+"use client";
+
+import Image from "next/image";
+import * as React from "react";
+import type { ResumeLogo } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface CompanyLogoProps {
+  logo: ResumeLogo;
+  company: string;
+  className?: string;
+}
+
+/**
+ * First letters of the first two words, e.g. `VNG Corporation` becomes `VC`
+ */
+function companyInitials(company: string) {
+  return company
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, "").charAt(0))
+    .filter(Boolean)
+    .slice(0, 2)
+    .join("")
+    .toUpperCase();
+}
+
+/**
+ * Small square company logo, grayscale in print. Falls back to the company
+ * initials when the image cannot be loaded
+ */
+export function CompanyLogo({ logo, company, className }: CompanyLogoProps) {
+  const [error, setError] = React.useState(false);
+  const external = typeof logo === "string" && logo.startsWith("http");
+
+  return (
+    <span
+      className={cn(
+        "relative flex size-5 shrink-0 overflow-hidden rounded bg-muted print:grayscale",
+        className
+      )}
+    >
+      {!error ? (
+        <Image
+          src={logo}
+          alt=""
+          width={20}
+          height={20}
+          className="h-full w-full object-contain"
+          onError={() => setError(true)}
+          unoptimized={external} // For external URLs
+        />
+      ) : (
+        <span
+          className="flex h-full w-full items-center justify-center text-[8px] font-semibold"
+          aria-hidden="true"
+        >
+          {companyInitials(company)}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import * as React from "react";
+import type { ProjectFilterMessages } from "@/lib/i18n";
+import {
+  filterProjects,
+  PROJECT_SORTS,
+  PROJECT_STATUSES,
+  sortProjects,
+} from "@/lib/projects";
+import type { ProjectSort, ProjectStatus, ResumeProject } from "@/lib/types";
+import { Button } from "./ui/button";
+
+/** A project card rendered on the server with the fields it is ordered by */
+export interface FilterableProject
+  extends Pick<ResumeProject, "status" | "start" | "end"> {
+  key: string;
+  card: React.ReactNode;
+}
+
+interface ProjectFiltersProps {
+  projects: FilterableProject[];
+  labels: ProjectFilterMessages;
+  className?: string;
+  /** Id of the section heading, labels the feed */
+  labelledBy: string;
+}
+
+/**
+ * Project grid with status filter and sort controls. The controls are hidden
+ * in print and when no project has a status or dates to go by
+ */
+export function ProjectFilters({
+  projects,
+  labels,
+  className,
+  labelledBy,
+}: ProjectFiltersProps) {
+  const [status, setStatus] = React.useState<ProjectStatus | null>(null);
+  const [sort, setSort] = React.useState<ProjectSort>("featured");
+
+  const statuses = PROJECT_STATUSES.filter((value) =>
+    projects.some((project) => project.status === value)
+  );
+  const sortable = statuses.length > 0 || projects.some(({ start }) => start);
+  const visible = sortProjects(
+    filterProjects(projects, status ? [status] : []),
+    sort
+  );
+
+  return (
+    <>
+      {sortable && (
+        <div className="flex flex-wrap items-center justify-between gap-2 print:hidden">
+          {statuses.length > 0 && (
+            <fieldset
+              className="flex flex-wrap gap-1"
+              aria-label={labels.filterByStatus}
+            >
+              {[null, ...statuses].map((value) => (
+                <Button
+                  key={value ?? "all"}
+                  className="h-6 px-2 text-xs"
+                  variant={status === value ? "secondary" : "ghost"}
+                  aria-pressed={status === value}
+                  onClick={() => setStatus(value)}
+                >
+                  {value ? labels.statuses[value] : labels.all}
+                </Button>
+              ))}
+            </fieldset>
+          )}
+          <select
+            className="ml-auto h-6 rounded-md border border-input bg-background px-1 text-xs"
+            aria-label={labels.sortBy}
+            value={sort}
+            onChange={(event) => setSort(event.target.value as ProjectSort)}
+          >
+            {PROJECT_SORTS.map((value) => (
+              <option key={value} value={value}>
+                {labels.sorts[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className={className} role="feed" aria-labelledby={labelledBy}>
+        {visible.map((project) => (
+          <article key={project.key} className="h-full">
+            {project.card}
+          </article>
+        ))}
+      </div>
+    </>
+  );
+}
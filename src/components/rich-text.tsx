@@ -0,0 +1,67 @@
+import { toInlines } from "@/lib/rich-text";
+import type { RichText, RichTextInline, RichTextSpan } from "@/lib/types";
+
+function Inline({ inline }: { inline: RichTextInline }) {
+  if (typeof inline === "string") return <>{inline}</>;
+
+  let content: React.ReactNode = inline.text;
+  if (inline.italic) content = <em>{content}</em>;
+  if (inline.bold) content = <strong>{content}</strong>;
+  if (!inline.href) return <>{content}</>;
+
+  return (
+    <a
+      className="underline hover:no-underline"
+      href={inline.href}
+      target="_blank"
+      rel="noopener noreferrer"
+    >
+      {content}
+    </a>
+  );
+}
+
+function Span({ span }: { span: RichTextSpan }) {
+  return (
+    <>
+      {toInlines(span).map((inline, index) => (
+        // biome-ignore lint/suspicious/noArrayIndexKey: Inline runs are static content
+        <Inline key={index} inline={inline} />
+      ))}
+    </>
+  );
+}
+
+interface RichTextContentProps {
+  content: RichText;
+}
+
+/**
+ * Renders resume rich text: paragraphs, bullet lists, emphasis and links
+ */
+export function RichTextContent({ content }: RichTextContentProps) {
+  if (typeof content === "string") return <>{content}</>;
+
+  return (
+    <>
+      {content.map((block, index) =>
+        "paragraph" in block ? (
+          // biome-ignore lint/suspicious/noArrayIndexKey: Blocks are static content
+          <p key={index}>
+            <Span span={block.paragraph} />
+          </p>
+        ) : (
+          // biome-ignore lint/suspicious/noArrayIndexKey: Blocks are static content
+          <ul key={index} className="list-inside list-disc">
+            {block.list.map((item, itemIndex) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: List items are static content
+              <li key={itemIndex}>
+                <Span span={item} />
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </>
+  );
+}
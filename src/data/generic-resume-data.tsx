@@ -1,251 +1,226 @@
-import type { ResumeData } from "@/lib/types";
+import { resolveResumeOverlay } from "@/lib/overlay";
+import type { ResumeOverlay } from "@/lib/types";
+import { RESUME_DATA as BASE_RESUME_DATA } from "./resume-data";
 
-export const RESUME_DATA: ResumeData = {
-  name: "Ban Nguyen",
-  initials: "BN",
-  location: "Ho Chi Minh City, Viet Nam",
-  locationLink: "https://www.google.com/maps/place/Ho+Chi+Minh+City",
+export const RESUME_OVERLAY: ResumeOverlay = {
   about: "Senior Product Manager with 10+ years of experience delivering 100% revenue growth, 2x GMV expansion, and 1.5-2.2pp conversion improvements across travel, e-commerce, fintech, and entertainment.",
-  summary: (
-    <>
-      Senior Product Manager
-    </>
-  ),
-  avatarUrl: "https://angi.truanay.com/images/photo-2-square.jpg",
-  personalWebsiteUrl: "https://ducban.com",
-  contact: {
-    email: "nguyenducban@me.com",
-    tel: "+84983472120",
-    social: [
+  summary: "Senior Product Manager",
+  layout: {
+    order: ["summary", "work", "skills", "education"],
+  },
+  work: {
+    entries: {
+      "MoMo (M_Service)": {
+        badges: ["AI", "Automation", "Travel", "Fintech"],
+        roles: {
+          "Product Management - Team Leader": {
+            description: [
+              {
+                paragraph:
+                  "Leading product strategy and development for MoMo Travel, one of Vietnam's top digital travel agencies.",
+              },
+              {
+                list: [
+                  "Launched AI-powered competitive analysis automation using Puppeteer crawlers and n8n workflows, delivering real-time market intelligence for strategic decision-making",
+                  "Built multi-agent AI systems with cross-platform capabilities between Claude Code, Factory Droid, and Gemini",
+                  "Developed RAG-based knowledge base system reducing cross-team meeting times by 30%",
+                  "Drove 1.5 percentage point conversion rate increase in train ticket booking through backend refactor and UX redesign",
+                  "Built multi-sided travel marketplace connecting 50+ suppliers including Vietnam Airlines, Vietjet Air, and Vietnam Railways",
+                ],
+              },
+            ],
+          },
+        },
+      },
+      "YODY Fashion JSC.": {
+        badges: ["E-commerce", "CDP", "Omni-channel"],
+        roles: {
+          "Head of Product Development": {
+            description: [
+              {
+                paragraph:
+                  "Led strategic transformation from Sapo-based platform to omni-channel e-commerce solution.",
+              },
+              {
+                list: [
+                  "Developed comprehensive omni-channel strategy leveraging Customer Data Platform (CDP) built on BigQuery",
+                  "Designed and implemented store promotion and incentive system with volume-based discounts",
+                  "Recruited, trained, and led cross-functional team of Product Managers, Product Owners, Business Analysts, and Product Designers",
+                ],
+              },
+            ],
+          },
+        },
+      },
+      TIKI: {
+        badges: ["E-commerce", "C2C Marketplace", "Digital Services"],
+        roles: {
+          "Senior Product Manager": {
+            description: [
+              {
+                paragraph:
+                  "Led product management for DoriDori (Vietnam's first Community Commerce platform) and Digital Service Business expansion.",
+              },
+              {
+                list: [
+                  "Launched Vietnam's first integrated C2C marketplace within main e-commerce app, achieving 40% CVR discovery to PDP",
+                  "Led hands-on development of foundational Order Management System (OMS) and Customer Relationship Management (CRM) systems",
+                  "Scaled digital service use cases including mobile top-up, bill payments - GMV doubled for three consecutive months during COVID",
+                ],
+              },
+            ],
+          },
+        },
+      },
+      "VNG Corporation": {
+        badges: ["Entertainment", "Fintech", "Marketplace"],
+        roles: {
+          "Senior Product Manager": {
+            description: [
+              {
+                paragraph:
+                  "Dual-role managing TIX.VN (Vietnam's largest movie aggregator) and ZaloPay performance optimization.",
+              },
+              {
+                list: [
+                  "Led TIX.VN as multi-sided marketplace connecting cinema partners including CGV, Galaxy, BHD",
+                  "First movie aggregator to successfully implement CGV integration with Vietnam's dominant cinema chain (45% market share)",
+                  "Delivered 100% revenue increase across aggregator platform and mini-app ecosystem",
+                ],
+              },
+            ],
+          },
+        },
+      },
+      "Leo Burnett Vietnam": {
+        badges: ["AR", "Leads Generation"],
+        roles: {
+          "Digital Producer": {
+            description: [
+              {
+                paragraph:
+                  "Managed digital projects for major clients including FrieslandCampina Vietnam, Samsung Vietnam, Romano.",
+              },
+              {
+                list: [
+                  "Won MMAVN 2017's Best in Show, Most Engaging Mobile Creative, and Mobile Website awards",
+                  "Featured in Facebook Spotlight 2019 with first Spark AR implementation for AFF 2019 Vietnam Football Team",
+                ],
+              },
+            ],
+          },
+        },
+      },
+    },
+    add: [
+      {
+        company: "Y&R",
+        link: "https://www.vml.com/",
+        badges: ["Digital Production", "Client Services"],
+        roles: [
+          {
+            title: "Digital Producer",
+            start: { year: 2015 },
+            end: { year: 2016 },
+            description:
+              "Managed digital portfolios for Microsoft Vietnam, Emirates, and Red Bull. Led idea development process coordination using agile methodology.",
+          },
+        ],
+      },
       {
-        name: "Website",
-        url: "https://ducban.com",
-        icon: "globe",
+        company: "VNG Corporation",
+        link: "https://vng.com.vn/",
+        badges: ["Traffics Distribusion", "Gaming"],
+        roles: [
+          {
+            title: "Product Manager",
+            start: { year: 2014 },
+            end: { year: 2015 },
+            description: [
+              {
+                paragraph:
+                  "Led product management for Vuigame.vn, Vietnam's leading mini-game portal.",
+              },
+              {
+                list: [
+                  "Released comprehensive new version achieving 150% DAU increase, tripled time-on-site",
+                  "Promoted mini-game portal as top internal traffic source for 360game.vn",
+                ],
+              },
+            ],
+          },
+        ],
       },
       {
-        name: "LinkedIn",
-        url: "https://www.linkedin.com/in/bannguyen/",
-        icon: "linkedin",
+        company: "TheGioiDiDong",
+        badges: ["Freelancing", "Web Development", "E-commerce", "SEO"],
+        roles: [
+          {
+            title: "Full-stack Web Developer",
+            start: { year: 2012 },
+            end: { year: 2014 },
+            description:
+              "Full-stack web development specializing in e-commerce platforms. Delivered 3-month front-end development project for TheGioiDiDong v3.0.",
+          },
+        ],
+      },
+      {
+        company: "TX INC.",
+        badges: ["Social Network", "Team Leadership"],
+        roles: [
+          {
+            title: "Product Manager",
+            start: { year: 2011 },
+            end: { year: 2012 },
+            description: [
+              {
+                paragraph:
+                  "Led product management for Truongxua.com, Vietnam's pioneering school-focused social network.",
+              },
+              {
+                list: [
+                  "Managed cross-functional team of 15+ members including Product Managers, UI/UX designers",
+                  "Delivered 150% increase in time-on-site and 200% increase in new user acquisition",
+                ],
+              },
+            ],
+          },
+        ],
       },
     ],
   },
-  education: [
-    {
-      school: "Swiss International University",
-      degree: "Bachelor's Degree in Marketing, School of Marketing and Leadership",
-      start: "2016",
-      end: "2018",
-    },
-    {
-      school: "Tay Nguyen University",
-      degree: "Bachelor's Degree in Agriculture and Forestry",
-      start: "1997",
-      end: "2001",
-    },
-  ],
-  work: [
-    {
-      company: "MoMo (M_Service)",
-      link: "https://momo.vn/",
-      badges: ["AI", "Automation", "Travel", "Fintech"],
-      title: "Product Management - Team Leader",
-      start: "2024",
-      end: null,
-      description: (
-        <>
-          Leading product strategy and development for MoMo Travel, one of Vietnam's top digital travel agencies.
-          <ul className="list-inside list-disc">
-            <li>
-              Launched AI-powered competitive analysis automation using Puppeteer crawlers and n8n workflows,
-              delivering real-time market intelligence for strategic decision-making
-            </li>
-            <li>
-              Built multi-agent AI systems with cross-platform capabilities between Claude Code, Factory Droid, and Gemini
-            </li>
-            <li>
-              Developed RAG-based knowledge base system reducing cross-team meeting times by 30%
-            </li>
-            <li>
-              Drove 1.5 percentage point conversion rate increase in train ticket booking through backend refactor and UX redesign
-            </li>
-            <li>
-              Built multi-sided travel marketplace connecting 50+ suppliers including Vietnam Airlines, Vietjet Air, and Vietnam Railways
-            </li>
-          </ul>
-        </>
-      ),
-    },
-    {
-      company: "YODY Fashion JSC.",
-      link: "https://yody.vn/",
-      badges: ["E-commerce", "CDP", "Omni-channel"],
-      title: "Head of Product Development",
-      start: "2022",
-      end: "2023",
-      description: (
-        <>
-          Led strategic transformation from Sapo-based platform to omni-channel e-commerce solution.
-          <ul className="list-inside list-disc">
-            <li>
-              Developed comprehensive omni-channel strategy leveraging Customer Data Platform (CDP) built on BigQuery
-            </li>
-            <li>
-              Designed and implemented store promotion and incentive system with volume-based discounts
-            </li>
-            <li>
-              Recruited, trained, and led cross-functional team of Product Managers, Product Owners, Business Analysts, and Product Designers
-            </li>
-          </ul>
-        </>
-      ),
-    },
-    {
-      company: "TIKI",
-      link: "https://tiki.vn/",
-      badges: ["E-commerce", "C2C Marketplace", "Digital Services"],
-      title: "Senior Product Manager",
-      start: "2020",
-      end: "2022",
-      description: (
-        <>
-          Led product management for DoriDori (Vietnam's first Community Commerce platform) and Digital Service Business expansion.
-          <ul className="list-inside list-disc">
-            <li>
-              Launched Vietnam's first integrated C2C marketplace within main e-commerce app, achieving 40% CVR discovery to PDP
-            </li>
-            <li>
-              Led hands-on development of foundational Order Management System (OMS) and Customer Relationship Management (CRM) systems
-            </li>
-            <li>
-              Scaled digital service use cases including mobile top-up, bill payments - GMV doubled for three consecutive months during COVID
-            </li>
-          </ul>
-        </>
-      ),
-    },
-    {
-      company: "VNG Corporation",
-      link: "https://vng.com.vn/",
-      badges: ["Entertainment", "Fintech", "Marketplace"],
-      title: "Senior Product Manager",
-      start: "2019",
-      end: "2020",
-      description: (
-        <>
-          Dual-role managing TIX.VN (Vietnam's largest movie aggregator) and ZaloPay performance optimization.
-          <ul className="list-inside list-disc">
-            <li>
-              Led TIX.VN as multi-sided marketplace connecting cinema partners including CGV, Galaxy, BHD
-            </li>
-            <li>
-              First movie aggregator to successfully implement CGV integration with Vietnam's dominant cinema chain (45% market share)
-            </li>
-            <li>
-              Delivered 100% revenue increase across aggregator platform and mini-app ecosystem
-            </li>
-          </ul>
-        </>
-      ),
-    },
-    {
-      company: "Leo Burnett Vietnam",
-      link: "https://www.leoburnett.com/",
-      badges: ["AR", "Leads Generation"],
-      title: "Digital Producer",
-      start: "2016",
-      end: "2019",
-      description: (
-        <>
-          Managed digital projects for major clients including FrieslandCampina Vietnam, Samsung Vietnam, Romano.
-          <ul className="list-inside list-disc">
-            <li>
-              Won MMAVN 2017's Best in Show, Most Engaging Mobile Creative, and Mobile Website awards
-            </li>
-            <li>
-              Featured in Facebook Spotlight 2019 with first Spark AR implementation for AFF 2019 Vietnam Football Team
-            </li>
-          </ul>
-        </>
-      ),
-    },
-    {
-      company: "Y&R",
-      link: "https://www.vml.com/",
-      badges: ["Digital Production", "Client Services"],
-      title: "Digital Producer",
-      start: "2015",
-      end: "2016",
-      description:
-        "Managed digital portfolios for Microsoft Vietnam, Emirates, and Red Bull. Led idea development process coordination using agile methodology.",
-    },
+  skills: [
     {
-      company: "VNG Corporation",
-      link: "https://vng.com.vn/",
-      badges: ["Traffics Distribusion", "Gaming"],
-      title: "Product Manager",
-      start: "2014",
-      end: "2015",
-      description: (
-        <>
-          Led product management for Vuigame.vn, Vietnam's leading mini-game portal.
-          <ul className="list-inside list-disc">
-            <li>
-              Released comprehensive new version achieving 150% DAU increase, tripled time-on-site
-            </li>
-            <li>
-              Promoted mini-game portal as top internal traffic source for 360game.vn
-            </li>
-          </ul>
-        </>
-      ),
+      name: "Product",
+      skills: [
+        { name: "Product Management & Strategy" },
+        { name: "Agile & Scrum Methodologies" },
+        { name: "P&L Management" },
+        { name: "Growth Hacking & User Acquisition" },
+        { name: "A/B Testing & Conversion Optimization" },
+        { name: "Cross-functional Team Leadership" },
+      ],
     },
     {
-      company: "TheGioiDiDong",
-      badges: ["Freelancing", "Web Development", "E-commerce", "SEO"],
-      title: "Full-stack Web Developer",
-      start: "2012",
-      end: "2014",
-      description:
-        "Full-stack web development specializing in e-commerce platforms. Delivered 3-month front-end development project for TheGioiDiDong v3.0.",
+      name: "Data",
+      skills: [
+        { name: "Data Analysis & Performance Optimization" },
+        { name: "Customer Data Platform (CDP)" },
+        { name: "Google Analytics & Amplitude" },
+        { name: "BigQuery & Supabase" },
+      ],
     },
     {
-      company: "TX INC.",
-      badges: ["Social Network", "Team Leadership"],
-      title: "Product Manager",
-      start: "2011",
-      end: "2012",
-      description: (
-        <>
-          Led product management for Truongxua.com, Vietnam's pioneering school-focused social network.
-          <ul className="list-inside list-disc">
-            <li>
-              Managed cross-functional team of 15+ members including Product Managers, UI/UX designers
-            </li>
-            <li>
-              Delivered 150% increase in time-on-site and 200% increase in new user acquisition
-            </li>
-          </ul>
-        </>
-      ),
+      name: "AI & Engineering",
+      skills: [
+        { name: "AI Development (Python, TypeScript)" },
+        { name: "LangChain & AI Agents" },
+        { name: "Prompt Engineering" },
+        { name: "N8N Automation" },
+        { name: "API Integration & System Architecture" },
+      ],
     },
   ],
-  skills: [
-    "Product Management & Strategy",
-    "Cross-functional Team Leadership",
-    "Data Analysis & Performance Optimization",
-    "Agile & Scrum Methodologies",
-    "AI Development (Python, TypeScript)",
-    "LangChain & AI Agents",
-    "Prompt Engineering",
-    "N8N Automation",
-    "Customer Data Platform (CDP)",
-    "Google Analytics & Amplitude",
-    "BigQuery & Supabase",
-    "P&L Management",
-    "Growth Hacking & User Acquisition",
-    "A/B Testing & Conversion Optimization",
-    "API Integration & System Architecture",
-  ],
   projects: [
     {
       title: "AI-Powered Competitive Analysis System",
@@ -308,4 +283,6 @@ export const RESUME_DATA: ResumeData = {
       },
     },
   ],
-} as const;
\ No newline at end of file
+};
+
+export const RESUME_DATA = resolveResumeOverlay(BASE_RESUME_DATA, RESUME_OVERLAY);
@@ -1,136 +1,7 @@
-import type { ResumeData } from "@/lib/types";
+import { resolveResumeOverlay } from "@/lib/overlay";
+import type { ResumeOverlay } from "@/lib/types";
+import { RESUME_DATA as BASE_RESUME_DATA } from "./resume-data";
 
-export const RESUME_DATA: ResumeData = {
-  name: "Ban Nguyen",
-  initials: "BN",
-  location: "Ho Chi Minh City, Viet Nam",
-  locationLink: "https://www.google.com/maps/place/Ho+Chi+Minh+City",
-  about: "Product Management Team Leader with hand-on Growth Hacking and AI Development experience",
-  summary: "Product Management Team Leader",
-  avatarUrl: "https://angi.truanay.com/images/photo-2-square.jpg",
-  personalWebsiteUrl: "https://ducban.com",
-  contact: {
-    email: "nguyenducban@me.com",
-    tel: "+84983472120",
-    social: [
-      {
-        name: "Website",
-        url: "https://ducban.com",
-        icon: "globe",
-      },
-      {
-        name: "LinkedIn",
-        url: "https://www.linkedin.com/in/bannguyen/",
-        icon: "linkedin",
-      },
-    ],
-  },
-  education: [
-    {
-      school: "Swiss International University",
-      degree: "Bachelor's Degree in Marketing, School of Marketing and Leadership",
-      start: "2016",
-      end: "2018",
-    },
-    {
-      school: "Tay Nguyen University",
-      degree: "Bachelor's Degree in Agriculture and Forestry",
-      start: "1997",
-      end: "2001",
-    },
-  ],
-  work: [
-    {
-      company: "MoMo (M_Service)",
-      link: "https://momo.vn/",
-      badges: ["Loyalty", "CDP", "Partnership"],
-      title: "Product Management - Team Leader",
-      start: "2024",
-      end: null,
-      description: "Leading product strategy and development for MoMo Travel, one of Vietnam's top digital travel agencies. Implemented comprehensive customer data platform (CDP) and personalization systems to enhance user retention and engagement, directly applicable to loyalty program optimization. Led integration of MoMo Travel's Order Management System (OMS) with MoMo's CRM, creating seamless data flow for customer relationship management. Managed complex B2B relationships with 50+ suppliers including API integrations, inventory synchronization, and revenue sharing models.",
-    },
-    {
-      company: "YODY Fashion JSC.",
-      link: "https://yody.vn/",
-      badges: ["Loyalty", "CDP", "Retail"],
-      title: "Head of Product Development",
-      start: "2022",
-      end: "2023",
-      description: "Led strategic transformation from Sapo-based platform to omni-channel e-commerce solution. Developed comprehensive product strategy for omni-channel platform migration by leveraging the company's Customer Data Platform (CDP), built on BigQuery. Designed and implemented store promotion and incentive system featuring volume-based discounts and tiered incentive structures tied to sales targets, directly applicable to loyalty program mechanics.",
-    },
-    {
-      company: "TIKI",
-      link: "https://tiki.vn/",
-      badges: ["Marketplace", "CDP", "Retention"],
-      title: "Senior Product Manager",
-      start: "2020",
-      end: "2022",
-      description: "Led product management for DoriDori (Vietnam's first Community Commerce platform) and Digital Service Business expansion. Launched Vietnam's first integrated C2C marketplace within main e-commerce app, achieving 40% CVR discovery to PDP and 20% daily active user retention through personalized experiences. Leveraged Amplitude alongside TIKI's internal CDP to analyze user behavior and optimize conversion rates.",
-    },
-    {
-      company: "VNG Corporation",
-      link: "https://vng.com.vn/",
-      badges: ["Partnership", "Fintech", "Marketplace"],
-      title: "Senior Product Manager",
-      start: "2019",
-      end: "2020",
-      description: "Managed TIX.VN as multi-sided marketplace connecting cinema partners with end consumers, achieving 100% revenue increase across aggregator platform. First movie aggregator to successfully implement CGV integration with Vietnam's dominant cinema chain. Managed partner API integrations, inventory synchronization, and revenue sharing models with complex B2B partnerships.",
-    },
-    {
-      company: "Leo Burnett Vietnam",
-      link: "https://www.leoburnett.com/",
-      badges: ["Digital", "Analytics", "Partnership"],
-      title: "Digital Producer",
-      start: "2016",
-      end: "2019",
-      description: "Managed digital projects for major clients including FrieslandCampina Vietnam, Samsung Vietnam, and various global brands. Developed buzz generation dashboard using GraphQL, Docker based NodeJS app, and PowerBI to track performance metrics. Won MMAVN 2017's Best in Show and Most Engaging Mobile Creative awards for innovative digital campaigns.",
-    },
-  ],
-  skills: [
-    "Product Strategy & Lifecycle Management",
-    "Agile & Scrum Methodologies",
-    "Partnership Management & Negotiation",
-    "B2B Relationship Management",
-    "Cross-functional Team Leadership",
-    "Customer Journey Optimization",
-    "Market Research & Analysis",
-    "Product Economics & Prioritization",
-    "Customer Data Platforms (CDP)",
-    "CRM Integration",
-    "API Integration",
-    "Product Analytics (GA4, Amplitude)",
-    "Fintech & Payment Systems",
-    "Multi-sided Marketplace Development",
-    "Applied AI & Automation",
-    "Loyalty Program Management",
-  ],
-  projects: [
-    {
-      title: "CDP & Personalization System",
-      techStack: ["CDP", "Personalization", "Customer Retention"],
-      description: "Implemented comprehensive customer data platform and personalization systems to enhance user retention and engagement, directly applicable to loyalty program optimization.",
-      link: {
-        label: "Customer Retention Platform",
-        href: "https://momo.vn/",
-      },
-    },
-    {
-      title: "Multi-supplier Partnership Platform",
-      techStack: ["Partnership", "API Integration", "Revenue Sharing"],
-      description: "Managed complex B2B relationships with 50+ suppliers including API integrations, inventory synchronization, and revenue sharing models with major airlines and travel partners.",
-      link: {
-        label: "Partnership Ecosystem",
-        href: "https://momo.vn/",
-      },
-    },
-    {
-      title: "Store Promotion & Incentive System",
-      techStack: ["Loyalty", "Incentives", "Retail Analytics"],
-      description: "Designed and implemented store promotion and incentive system featuring volume-based discounts and tiered structures tied to sales targets, directly applicable to loyalty program mechanics.",
-      link: {
-        label: "Retail Loyalty System",
-        href: "https://yody.vn/",
-      },
-    },
-  ],
-} as const;
\ No newline at end of file
+export const RESUME_OVERLAY: ResumeOverlay = {};
+
+export const RESUME_DATA = resolveResumeOverlay(BASE_RESUME_DATA, RESUME_OVERLAY);
@@ -1,18 +1,12 @@
-import type { ResumeData } from "@/lib/types";
+import { resolveResumeOverlay } from "@/lib/overlay";
+import type { ResumeOverlay } from "@/lib/types";
+import { RESUME_DATA as BASE_RESUME_DATA } from "./resume-data";
 
-export const RESUME_DATA: ResumeData = {
-  name: "Ban Nguyen",
-  initials: "BN",
-  location: "Ho Chi Minh City, Viet Nam",
-  locationLink: "https://www.google.com/maps/place/Ho+Chi+Minh+City",
+export const RESUME_OVERLAY: ResumeOverlay = {
   about: "Product Manager",
   summary:
     "Product Manager with a strategic marketing foundation and hands-on AI development expertise. Proven track record of delivering a 100% revenue increase at TIX.VN and achieving a CSAT of over 90% through AI-powered automation systems. Skilled in building comprehensive AI applications from the ground up using a modern stack (Python, TypeScript, Swift, Bash) and multi-agent architectures. My marketing background provides a unique advantage in driving product-led growth by combining customer psychology, market positioning, and strategic communication with technical AI implementation. My diverse educational background in Agriculture and Marketing fosters a systems-thinking approach to create customer-centric, innovative solutions that deliver measurable business impact.",
-  avatarUrl: "https://angi.truanay.com/images/photo-2-square.jpg",
-  personalWebsiteUrl: "https://ducban.com",
   contact: {
-    email: "nguyenducban@me.com",
-    tel: "+84983472120",
     social: [
       {
         name: "GitHub",
@@ -30,122 +24,152 @@ export const RESUME_DATA: ResumeData = {
     {
       school: "Swiss International University",
       degree: "Bachelor's Degree, Marketing",
-      start: "2016",
-      end: "2018",
+      start: { year: 2016 },
+      end: { year: 2018 },
     },
     {
       school: "Tay Nguyen University",
       degree: "Bachelor's Degree, Faculty of Agriculture and Forestry",
-      start: "1997",
-      end: "2001",
+      start: { year: 1997 },
+      end: { year: 2001 },
     },
   ],
-  work: [
-    {
-      company: "MoMo (M_Service)",
-      link: "https://momo.vn/",
-      badges: ["AI", "Fintech", "Travel"],
-      title: "Product Management - Team Leader",
-      start: "2024",
-      end: "Present",
-      description:
-        "Led product strategy for MoMo Travel, leveraging a marketing foundation to drive AI innovation. Developed custom AI applications and multi-agent systems, achieving a CSAT of over 90%. Implemented AI-powered competitive analysis, RAG-based knowledge systems, and robust data pipelines, significantly improving team efficiency and strategic decision-making.",
-    },
-    {
-      company: "YODY Fashion JSC.",
-      link: "https://yody.vn/",
-      badges: ["E-commerce", "Fashion"],
-      title: "Head of Product Development",
-      start: "2022",
-      end: "2023",
-      description:
-        "Led the strategic transformation from a Sapo-based platform to a full omni-channel e-commerce solution. Utilized a BigQuery-based Customer Data Platform (CDP) to unify data and optimize the customer journey. Recruited and managed a cross-functional product team.",
-    },
-    {
-      company: "TIKI",
-      link: "https://tiki.vn/",
-      badges: ["E-commerce", "Marketplace"],
-      title: "Senior Product Manager",
-      start: "2020",
-      end: "2022",
-      description:
-        "Launched and scaled DoriDori, Vietnam's first integrated C2C marketplace, achieving 20% daily active user retention. Led the development of the underlying OMS and CRM systems and expanded the digital service business, doubling its GMV.",
-    },
-    {
-      company: "VNG Corporation",
-      link: "https://www.vng.com.vn/",
-      badges: ["Entertainment", "Fintech"],
-      title: "Senior Product Manager",
-      start: "2019",
-      end: "2020",
-      description:
-        "Managed TIX.VN, Vietnam's largest movie aggregator, and delivered a 100% revenue increase. Led the strategic integration with major cinema partners like CGV and established ZaloPay as a default payment option within the Zalo super-app.",
-    },
-    {
-      company: "Leo Burnett Vietnam",
-      link: "https://leoburnett.com.vn/",
-      badges: ["Digital Marketing"],
-      title: "Digital Producer",
-      start: "2016",
-      end: "2019",
-      description:
-        "Managed award-winning digital campaigns for major clients, winning MMAVN 2017's 'Best in Show'. Pioneered the first Spark AR implementation for a campaign in Vietnam, featured in a Facebook Spotlight.",
-    },
-    {
-      company: "Y&R",
-      link: "https://www.yr.com/",
-      badges: ["Digital Marketing"],
-      title: "Digital Producer",
-      start: "2015",
-      end: "2016",
-      description:
-        "Managed digital portfolios for global brands like Microsoft, Emirates, and Red Bull. Coordinated the idea development process between creative, accounts, and technical teams using agile methodologies.",
+  work: {
+    entries: {
+      "MoMo (M_Service)": {
+        badges: ["AI", "Fintech", "Travel"],
+        roles: {
+          "Product Management - Team Leader": {
+            description:
+              "Led product strategy for MoMo Travel, leveraging a marketing foundation to drive AI innovation. Developed custom AI applications and multi-agent systems, achieving a CSAT of over 90%. Implemented AI-powered competitive analysis, RAG-based knowledge systems, and robust data pipelines, significantly improving team efficiency and strategic decision-making.",
+          },
+        },
+      },
+      "YODY Fashion JSC.": {
+        badges: ["E-commerce", "Fashion"],
+        roles: {
+          "Head of Product Development": {
+            description:
+              "Led the strategic transformation from a Sapo-based platform to a full omni-channel e-commerce solution. Utilized a BigQuery-based Customer Data Platform (CDP) to unify data and optimize the customer journey. Recruited and managed a cross-functional product team.",
+          },
+        },
+      },
+      TIKI: {
+        badges: ["E-commerce", "Marketplace"],
+        roles: {
+          "Senior Product Manager": {
+            description:
+              "Launched and scaled DoriDori, Vietnam's first integrated C2C marketplace, achieving 20% daily active user retention. Led the development of the underlying OMS and CRM systems and expanded the digital service business, doubling its GMV.",
+          },
+        },
+      },
+      "VNG Corporation": {
+        link: "https://www.vng.com.vn/",
+        badges: ["Entertainment", "Fintech"],
+        roles: {
+          "Senior Product Manager": {
+            description:
+              "Managed TIX.VN, Vietnam's largest movie aggregator, and delivered a 100% revenue increase. Led the strategic integration with major cinema partners like CGV and established ZaloPay as a default payment option within the Zalo super-app.",
+          },
+        },
+      },
+      "Leo Burnett Vietnam": {
+        link: "https://leoburnett.com.vn/",
+        badges: ["Digital Marketing"],
+        roles: {
+          "Digital Producer": {
+            description:
+              "Managed award-winning digital campaigns for major clients, winning MMAVN 2017's 'Best in Show'. Pioneered the first Spark AR implementation for a campaign in Vietnam, featured in a Facebook Spotlight.",
+          },
+        },
+      },
     },
+    add: [
+      {
+        company: "Y&R",
+        link: "https://www.yr.com/",
+        badges: ["Digital Marketing"],
+        roles: [
+          {
+            title: "Digital Producer",
+            start: { year: 2015 },
+            end: { year: 2016 },
+            description:
+              "Managed digital portfolios for global brands like Microsoft, Emirates, and Red Bull. Coordinated the idea development process between creative, accounts, and technical teams using agile methodologies.",
+          },
+        ],
+      },
+      {
+        company: "VNG Corporation",
+        link: "https://www.vng.com.vn/",
+        badges: ["Gaming"],
+        roles: [
+          {
+            title: "Product Manager",
+            start: { year: 2014 },
+            end: { year: 2015 },
+            description:
+              "Led product management for Vuigame.vn, achieving a 150% DAU increase and tripling time-on-site after a major relaunch. Acted as both Product Manager and Product Designer.",
+          },
+        ],
+      },
+      {
+        company: "Freelance",
+        badges: ["Web Development"],
+        roles: [
+          {
+            title: "Web Developer",
+            start: { year: 2012 },
+            end: { year: 2014 },
+            description:
+              "Delivered full-stack web development projects, specializing in e-commerce. Worked on the front-end for TheGioiDiDong v3.0 and gained experience with international development standards and agile practices.",
+          },
+        ],
+      },
+      {
+        company: "TX INC.",
+        badges: ["Social Network"],
+        roles: [
+          {
+            title: "Product Manager",
+            start: { year: 2011 },
+            end: { year: 2012 },
+            description:
+              "Led product management for Truongxua.com, one of Vietnam's first school-focused social networks. Managed a cross-functional team of over 15 members and achieved a 200% increase in new user acquisition.",
+          },
+        ],
+      },
+    ],
+  },
+  skills: [
     {
-      company: "VNG Corporation",
-      link: "https://www.vng.com.vn/",
-      badges: ["Gaming"],
-      title: "Product Manager",
-      start: "2014",
-      end: "2015",
-      description:
-        "Led product management for Vuigame.vn, achieving a 150% DAU increase and tripling time-on-site after a major relaunch. Acted as both Product Manager and Product Designer.",
+      name: "Product",
+      skills: [
+        { name: "Marketing-Driven Product Strategy" },
+        { name: "Cross-functional Team Leadership" },
+        { name: "Agile & Scrum Methodologies" },
+      ],
     },
     {
-      company: "Freelance",
-      link: "",
-      badges: ["Web Development"],
-      title: "Web Developer",
-      start: "2012",
-      end: "2014",
-      description:
-        "Delivered full-stack web development projects, specializing in e-commerce. Worked on the front-end for TheGioiDiDong v3.0 and gained experience with international development standards and agile practices.",
+      name: "AI & Engineering",
+      skills: [
+        { name: "Applied AI & Automation" },
+        { name: "Custom AI Application Development" },
+        { name: "Multi-Agent Systems Architecture" },
+        { name: "RAG & Knowledge Base Systems" },
+        { name: "Prompt & Context Engineering" },
+        { name: "Vibe-Coding (Python, TypeScript, Swift)" },
+        { name: "Full-stack Development Understanding" },
+      ],
     },
     {
-      company: "TX INC.",
-      link: "",
-      badges: ["Social Network"],
-      title: "Product Manager",
-      start: "2011",
-      end: "2012",
-      description:
-        "Led product management for Truongxua.com, one of Vietnam's first school-focused social networks. Managed a cross-functional team of over 15 members and achieved a 200% increase in new user acquisition.",
+      name: "Data",
+      skills: [
+        { name: "Data Analysis & Analytics" },
+        { name: "Data Pipeline Architecture (Supabase, BigQuery)" },
+      ],
     },
   ],
-  skills: [
-    "Marketing-Driven Product Strategy",
-    "Applied AI & Automation",
-    "Custom AI Application Development",
-    "Multi-Agent Systems Architecture",
-    "Data Analysis & Analytics",
-    "Cross-functional Team Leadership",
-    "Vibe-Coding (Python, TypeScript, Swift)",
-    "RAG & Knowledge Base Systems",
-    "Data Pipeline Architecture (Supabase, BigQuery)",
-    "Agile & Scrum Methodologies",
-    "Prompt & Context Engineering",
-    "Full-stack Development Understanding",
-  ],
   projects: [
     {
       title: "Human Act Prize 2024",
@@ -198,4 +222,6 @@ export const RESUME_DATA: ResumeData = {
       },
     },
   ],
-} as const;
\ No newline at end of file
+};
+
+export const RESUME_DATA = resolveResumeOverlay(BASE_RESUME_DATA, RESUME_OVERLAY);
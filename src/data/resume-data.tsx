@@ -1,6 +1,7 @@
+import { sortResumeChronologically } from "@/lib/dates";
 import type { ResumeData } from "@/lib/types";
 
-export const RESUME_DATA: ResumeData = {
+export const RESUME_DATA: ResumeData = sortResumeChronologically({
   name: "Ban Nguyen",
   initials: "BN",
   location: "Ho Chi Minh City, Viet Nam",
@@ -9,6 +10,7 @@ export const RESUME_DATA: ResumeData = {
   summary: "Product Management Team Leader",
   avatarUrl: "https://angi.truanay.com/images/photo-2-square.jpg",
   personalWebsiteUrl: "https://ducban.com",
+  languages: [],
   contact: {
     email: "nguyenducban@me.com",
     tel: "+84983472120",
@@ -29,14 +31,14 @@ export const RESUME_DATA: ResumeData = {
     {
       school: "Swiss International University",
       degree: "Bachelor's Degree in Marketing, School of Marketing and Leadership",
-      start: "2016",
-      end: "2018",
+      start: { year: 2016 },
+      end: { year: 2018 },
     },
     {
       school: "Tay Nguyen University",
       degree: "Bachelor's Degree in Agriculture and Forestry",
-      start: "1997",
-      end: "2001",
+      start: { year: 1997 },
+      end: { year: 2001 },
     },
   ],
   work: [
@@ -44,65 +46,107 @@ export const RESUME_DATA: ResumeData = {
       company: "MoMo (M_Service)",
       link: "https://momo.vn/",
       badges: ["Loyalty", "CDP", "Partnership"],
-      title: "Product Management - Team Leader",
-      start: "2024",
-      end: null,
-      description: "Leading product strategy and development for MoMo Travel, one of Vietnam's top digital travel agencies. Implemented comprehensive customer data platform (CDP) and personalization systems to enhance user retention and engagement, directly applicable to loyalty program optimization. Led integration of MoMo Travel's Order Management System (OMS) with MoMo's CRM, creating seamless data flow for customer relationship management. Managed complex B2B relationships with 50+ suppliers including API integrations, inventory synchronization, and revenue sharing models.",
+      roles: [
+        {
+          title: "Product Management - Team Leader",
+          start: { year: 2024 },
+          end: null,
+          description: "Leading product strategy and development for MoMo Travel, one of Vietnam's top digital travel agencies. Implemented comprehensive customer data platform (CDP) and personalization systems to enhance user retention and engagement, directly applicable to loyalty program optimization. Led integration of MoMo Travel's Order Management System (OMS) with MoMo's CRM, creating seamless data flow for customer relationship management. Managed complex B2B relationships with 50+ suppliers including API integrations, inventory synchronization, and revenue sharing models.",
+        },
+      ],
     },
     {
       company: "YODY Fashion JSC.",
       link: "https://yody.vn/",
       badges: ["Loyalty", "CDP", "Retail"],
-      title: "Head of Product Development",
-      start: "2022",
-      end: "2023",
-      description: "Led strategic transformation from Sapo-based platform to omni-channel e-commerce solution. Developed comprehensive product strategy for omni-channel platform migration by leveraging the company's Customer Data Platform (CDP), built on BigQuery. Designed and implemented store promotion and incentive system featuring volume-based discounts and tiered incentive structures tied to sales targets, directly applicable to loyalty program mechanics.",
+      roles: [
+        {
+          title: "Head of Product Development",
+          start: { year: 2022 },
+          end: { year: 2023 },
+          description: "Led strategic transformation from Sapo-based platform to omni-channel e-commerce solution. Developed comprehensive product strategy for omni-channel platform migration by leveraging the company's Customer Data Platform (CDP), built on BigQuery. Designed and implemented store promotion and incentive system featuring volume-based discounts and tiered incentive structures tied to sales targets, directly applicable to loyalty program mechanics.",
+        },
+      ],
     },
     {
       company: "TIKI",
       link: "https://tiki.vn/",
       badges: ["Marketplace", "CDP", "Retention"],
-      title: "Senior Product Manager",
-      start: "2020",
-      end: "2022",
-      description: "Led product management for DoriDori (Vietnam's first Community Commerce platform) and Digital Service Business expansion. Launched Vietnam's first integrated C2C marketplace within main e-commerce app, achieving 40% CVR discovery to PDP and 20% daily active user retention through personalized experiences. Leveraged Amplitude alongside TIKI's internal CDP to analyze user behavior and optimize conversion rates.",
+      roles: [
+        {
+          title: "Senior Product Manager",
+          start: { year: 2020 },
+          end: { year: 2022 },
+          description: "Led product management for DoriDori (Vietnam's first Community Commerce platform) and Digital Service Business expansion. Launched Vietnam's first integrated C2C marketplace within main e-commerce app, achieving 40% CVR discovery to PDP and 20% daily active user retention through personalized experiences. Leveraged Amplitude alongside TIKI's internal CDP to analyze user behavior and optimize conversion rates.",
+        },
+      ],
     },
     {
       company: "VNG Corporation",
       link: "https://vng.com.vn/",
       badges: ["Partnership", "Fintech", "Marketplace"],
-      title: "Senior Product Manager",
-      start: "2019",
-      end: "2020",
-      description: "Managed TIX.VN as multi-sided marketplace connecting cinema partners with end consumers, achieving 100% revenue increase across aggregator platform. First movie aggregator to successfully implement CGV integration with Vietnam's dominant cinema chain. Managed partner API integrations, inventory synchronization, and revenue sharing models with complex B2B partnerships.",
+      roles: [
+        {
+          title: "Senior Product Manager",
+          start: { year: 2019 },
+          end: { year: 2020 },
+          description: "Managed TIX.VN as multi-sided marketplace connecting cinema partners with end consumers, achieving 100% revenue increase across aggregator platform. First movie aggregator to successfully implement CGV integration with Vietnam's dominant cinema chain. Managed partner API integrations, inventory synchronization, and revenue sharing models with complex B2B partnerships.",
+        },
+      ],
     },
     {
       company: "Leo Burnett Vietnam",
       link: "https://www.leoburnett.com/",
       badges: ["Digital", "Analytics", "Partnership"],
-      title: "Digital Producer",
-      start: "2016",
-      end: "2019",
-      description: "Managed digital projects for major clients including FrieslandCampina Vietnam, Samsung Vietnam, and various global brands. Developed buzz generation dashboard using GraphQL, Docker based NodeJS app, and PowerBI to track performance metrics. Won MMAVN 2017's Best in Show and Most Engaging Mobile Creative awards for innovative digital campaigns.",
+      roles: [
+        {
+          title: "Digital Producer",
+          start: { year: 2016 },
+          end: { year: 2019 },
+          description: "Managed digital projects for major clients including FrieslandCampina Vietnam, Samsung Vietnam, and various global brands. Developed buzz generation dashboard using GraphQL, Docker based NodeJS app, and PowerBI to track performance metrics. Won MMAVN 2017's Best in Show and Most Engaging Mobile Creative awards for innovative digital campaigns.",
+        },
+      ],
     },
   ],
+  certifications: [],
+  publications: [],
   skills: [
-    "Product Strategy & Lifecycle Management",
-    "Agile & Scrum Methodologies",
-    "Partnership Management & Negotiation",
-    "B2B Relationship Management",
-    "Cross-functional Team Leadership",
-    "Customer Journey Optimization",
-    "Market Research & Analysis",
-    "Product Economics & Prioritization",
-    "Customer Data Platforms (CDP)",
-    "CRM Integration",
-    "API Integration",
-    "Product Analytics (GA4, Amplitude)",
-    "Fintech & Payment Systems",
-    "Multi-sided Marketplace Development",
-    "Applied AI & Automation",
-    "Loyalty Program Management",
+    {
+      name: "Product",
+      skills: [
+        { name: "Product Strategy & Lifecycle Management" },
+        { name: "Agile & Scrum Methodologies" },
+        { name: "Customer Journey Optimization" },
+        { name: "Market Research & Analysis" },
+        { name: "Product Economics & Prioritization" },
+        { name: "Multi-sided Marketplace Development" },
+        { name: "Loyalty Program Management" },
+        { name: "Fintech & Payment Systems" },
+      ],
+    },
+    {
+      name: "Partnerships & Leadership",
+      skills: [
+        { name: "Partnership Management & Negotiation" },
+        { name: "B2B Relationship Management" },
+        { name: "Cross-functional Team Leadership" },
+      ],
+    },
+    {
+      name: "Data",
+      skills: [
+        { name: "Customer Data Platforms (CDP)" },
+        { name: "Product Analytics (GA4, Amplitude)" },
+      ],
+    },
+    {
+      name: "Engineering",
+      skills: [
+        { name: "CRM Integration" },
+        { name: "API Integration" },
+        { name: "Applied AI & Automation" },
+      ],
+    },
   ],
   projects: [
     {
@@ -113,6 +157,10 @@ export const RESUME_DATA: ResumeData = {
         label: "Customer Retention Platform",
         href: "https://momo.vn/",
       },
+      status: "active",
+      start: { year: 2024 },
+      end: null,
+      role: "Product Management Team Leader",
     },
     {
       title: "Multi-supplier Partnership Platform",
@@ -122,6 +170,16 @@ export const RESUME_DATA: ResumeData = {
         label: "Partnership Ecosystem",
         href: "https://momo.vn/",
       },
+      status: "active",
+      start: { year: 2024 },
+      end: null,
+      role: "Product Management Team Leader",
+      outcomes: [
+        {
+          metric: { value: 50, unit: "suppliers" },
+          text: "integrated via API, including major airlines",
+        },
+      ],
     },
     {
       title: "Store Promotion & Incentive System",
@@ -131,6 +189,11 @@ export const RESUME_DATA: ResumeData = {
         label: "Retail Loyalty System",
         href: "https://yody.vn/",
       },
+      status: "archived",
+      start: { year: 2022 },
+      end: { year: 2023 },
+      role: "Head of Product Development",
     },
   ],
-} as const;
\ No newline at end of file
+  customSections: [],
+});
@@ -0,0 +1,149 @@
+import type { ResumeOverlay } from "@/lib/types";
+
+export const RESUME_OVERLAY: ResumeOverlay = {
+  location: "TP. Hồ Chí Minh, Việt Nam",
+  about: "Trưởng nhóm Quản lý Sản phẩm với kinh nghiệm thực chiến về Growth Hacking và phát triển AI",
+  summary: "Trưởng nhóm Quản lý Sản phẩm",
+  education: [
+    {
+      school: "Swiss International University",
+      degree: "Cử nhân Marketing, Khoa Marketing và Lãnh đạo",
+      start: { year: 2016 },
+      end: { year: 2018 },
+    },
+    {
+      school: "Đại học Tây Nguyên",
+      degree: "Cử nhân Nông Lâm nghiệp",
+      start: { year: 1997 },
+      end: { year: 2001 },
+    },
+  ],
+  work: {
+    entries: {
+      "MoMo (M_Service)": {
+        roles: {
+          "Product Management - Team Leader": {
+            title: "Trưởng nhóm Quản lý Sản phẩm",
+            description: "Dẫn dắt chiến lược và phát triển sản phẩm cho MoMo Travel, một trong những đại lý du lịch trực tuyến hàng đầu Việt Nam. Triển khai nền tảng dữ liệu khách hàng (CDP) và hệ thống cá nhân hoá nhằm tăng tỷ lệ giữ chân và mức độ tương tác của người dùng, áp dụng trực tiếp cho tối ưu chương trình khách hàng thân thiết. Dẫn dắt việc tích hợp hệ thống quản lý đơn hàng (OMS) của MoMo Travel với CRM của MoMo, tạo luồng dữ liệu liền mạch cho quản lý quan hệ khách hàng. Quản lý quan hệ B2B với hơn 50 nhà cung cấp, bao gồm tích hợp API, đồng bộ tồn kho và mô hình chia sẻ doanh thu.",
+          },
+        },
+      },
+      "YODY Fashion JSC.": {
+        roles: {
+          "Head of Product Development": {
+            title: "Giám đốc Phát triển Sản phẩm",
+            description: "Dẫn dắt chuyển đổi chiến lược từ nền tảng Sapo sang giải pháp thương mại điện tử đa kênh. Xây dựng chiến lược sản phẩm cho việc chuyển đổi nền tảng đa kênh dựa trên nền tảng dữ liệu khách hàng (CDP) của công ty, xây dựng trên BigQuery. Thiết kế và triển khai hệ thống khuyến mãi và ưu đãi cho cửa hàng với chiết khấu theo sản lượng và cơ cấu ưu đãi bậc thang gắn với chỉ tiêu doanh số, áp dụng trực tiếp cho cơ chế chương trình khách hàng thân thiết.",
+          },
+        },
+      },
+      TIKI: {
+        roles: {
+          "Senior Product Manager": {
+            title: "Quản lý Sản phẩm Cấp cao",
+            description: "Quản lý sản phẩm cho DoriDori (nền tảng Community Commerce đầu tiên tại Việt Nam) và mảng mở rộng kinh doanh Dịch vụ Số. Ra mắt sàn C2C tích hợp đầu tiên tại Việt Nam ngay trong ứng dụng thương mại điện tử chính, đạt 40% CVR từ khám phá đến trang sản phẩm và 20% tỷ lệ giữ chân người dùng hằng ngày nhờ trải nghiệm cá nhân hoá. Kết hợp Amplitude với CDP nội bộ của TIKI để phân tích hành vi người dùng và tối ưu tỷ lệ chuyển đổi.",
+          },
+        },
+      },
+      "VNG Corporation": {
+        roles: {
+          "Senior Product Manager": {
+            title: "Quản lý Sản phẩm Cấp cao",
+            description: "Quản lý TIX.VN, sàn giao dịch đa phương kết nối các đối tác rạp chiếu phim với người dùng cuối, đạt mức tăng 100% doanh thu trên toàn nền tảng. Là nền tảng tổng hợp vé phim đầu tiên tích hợp thành công với CGV, chuỗi rạp lớn nhất Việt Nam. Quản lý tích hợp API đối tác, đồng bộ tồn kho và mô hình chia sẻ doanh thu trong các quan hệ B2B phức tạp.",
+          },
+        },
+      },
+      "Leo Burnett Vietnam": {
+        roles: {
+          "Digital Producer": {
+            description: "Quản lý các dự án số cho những khách hàng lớn như FrieslandCampina Việt Nam, Samsung Việt Nam và nhiều thương hiệu toàn cầu. Phát triển dashboard đo lường hiệu quả lan toả bằng GraphQL, ứng dụng NodeJS chạy trên Docker và PowerBI. Đạt giải Best in Show và Most Engaging Mobile Creative tại MMAVN 2017 cho các chiến dịch số sáng tạo.",
+          },
+        },
+      },
+    },
+  },
+  skills: [
+    {
+      name: "Sản phẩm",
+      skills: [
+        { name: "Chiến lược & Quản lý vòng đời sản phẩm" },
+        { name: "Phương pháp Agile & Scrum" },
+        { name: "Tối ưu hành trình khách hàng" },
+        { name: "Nghiên cứu & Phân tích thị trường" },
+        { name: "Kinh tế sản phẩm & Ưu tiên hoá" },
+        { name: "Phát triển sàn giao dịch đa phương" },
+        { name: "Quản lý chương trình khách hàng thân thiết" },
+        { name: "Fintech & Hệ thống thanh toán" },
+      ],
+    },
+    {
+      name: "Đối tác & Lãnh đạo",
+      skills: [
+        { name: "Quản lý & Đàm phán đối tác" },
+        { name: "Quản lý quan hệ B2B" },
+        { name: "Lãnh đạo nhóm liên chức năng" },
+      ],
+    },
+    {
+      name: "Dữ liệu",
+      skills: [
+        { name: "Nền tảng dữ liệu khách hàng (CDP)" },
+        { name: "Phân tích sản phẩm (GA4, Amplitude)" },
+      ],
+    },
+    {
+      name: "Kỹ thuật",
+      skills: [
+        { name: "Tích hợp CRM" },
+        { name: "Tích hợp API" },
+        { name: "Ứng dụng AI & Tự động hoá" },
+      ],
+    },
+  ],
+  projects: [
+    {
+      title: "Hệ thống CDP & Cá nhân hoá",
+      techStack: ["CDP", "Personalization", "Customer Retention"],
+      description: "Triển khai nền tảng dữ liệu khách hàng và hệ thống cá nhân hoá nhằm tăng tỷ lệ giữ chân và mức độ tương tác của người dùng, áp dụng trực tiếp cho tối ưu chương trình khách hàng thân thiết.",
+      link: {
+        label: "Nền tảng giữ chân khách hàng",
+        href: "https://momo.vn/",
+      },
+      status: "active",
+      start: { year: 2024 },
+      end: null,
+      role: "Trưởng nhóm Quản lý Sản phẩm",
+    },
+    {
+      title: "Nền tảng hợp tác đa nhà cung cấp",
+      techStack: ["Partnership", "API Integration", "Revenue Sharing"],
+      description: "Quản lý quan hệ B2B phức tạp với hơn 50 nhà cung cấp, bao gồm tích hợp API, đồng bộ tồn kho và mô hình chia sẻ doanh thu với các hãng hàng không và đối tác du lịch lớn.",
+      link: {
+        label: "Hệ sinh thái đối tác",
+        href: "https://momo.vn/",
+      },
+      status: "active",
+      start: { year: 2024 },
+      end: null,
+      role: "Trưởng nhóm Quản lý Sản phẩm",
+      outcomes: [
+        {
+          metric: { value: 50, unit: "nhà cung cấp" },
+          text: "tích hợp qua API, bao gồm các hãng hàng không lớn",
+        },
+      ],
+    },
+    {
+      title: "Hệ thống khuyến mãi & ưu đãi cửa hàng",
+      techStack: ["Loyalty", "Incentives", "Retail Analytics"],
+      description: "Thiết kế và triển khai hệ thống khuyến mãi và ưu đãi cho cửa hàng với chiết khấu theo sản lượng và cơ cấu bậc thang gắn với chỉ tiêu doanh số, áp dụng trực tiếp cho cơ chế chương trình khách hàng thân thiết.",
+      link: {
+        label: "Hệ thống khách hàng thân thiết bán lẻ",
+        href: "https://yody.vn/",
+      },
+      status: "archived",
+      start: { year: 2022 },
+      end: { year: 2023 },
+      role: "Giám đốc Phát triển Sản phẩm",
+    },
+  ],
+};
@@ -0,0 +1,33 @@
+import type { ResumeAchievement, ResumeMetric } from "@/lib/types";
+
+/**
+ * Formats a metric such as `100%`, `2x` or `50 suppliers`. Units of up to two
+ * characters attach to the value, longer ones are separated by a space
+ */
+export function formatMetric({ value, unit = "" }: ResumeMetric): string {
+  const number = value.toLocaleString("en-US");
+  if (!unit) return number;
+  return unit.length <= 2 ? `${number}${unit}` : `${number} ${unit}`;
+}
+
+/**
+ * Single-line achievement with the metric leading the text, e.g.
+ * `100% revenue increase across the aggregator platform`
+ */
+export function formatAchievement({ text, metric }: ResumeAchievement): string {
+  return metric ? `${formatMetric(metric)} ${text}` : text;
+}
+
+/**
+ * Keeps achievements carrying at least one of `tags`, or all of them when no
+ * tags are given
+ */
+export function selectAchievements(
+  achievements: ResumeAchievement[],
+  tags: string[] = []
+): ResumeAchievement[] {
+  if (tags.length === 0) return achievements;
+  return achievements.filter((achievement) =>
+    achievement.tags?.some((tag) => tags.includes(tag))
+  );
+}
@@ -0,0 +1,17 @@
+import { formatDateRange, formatResumeDate } from "@/lib/dates";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+import type { Locale, ResumeCustomEntry } from "@/lib/types";
+
+/**
+ * `Mar 2022` for single-date entries, `Mar 2022 – Present` for periods and
+ * undefined for undated ones. Also used for projects, which date the same way
+ */
+export function formatEntryDates(
+  { start, end }: Pick<ResumeCustomEntry, "start" | "end">,
+  locale: Locale = DEFAULT_LOCALE
+): string | undefined {
+  if (!start) return undefined;
+  return end === undefined
+    ? formatResumeDate(start, locale)
+    : formatDateRange(start, end, locale);
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatDuration,
+  formatPeriod,
+  parseResumeDate,
+  sortByPeriod,
+  toIsoDate,
+} from "@/lib/dates";
+
+describe("parseResumeDate", () => {
+  it("keeps the precision of the date", () => {
+    expect(parseResumeDate("2022")).toEqual({ year: 2022 });
+    expect(parseResumeDate("2022-03")).toEqual({ year: 2022, month: 3 });
+    expect(parseResumeDate(" 2022-03-15 ")).toEqual({ year: 2022, month: 3 });
+  });
+
+  it("rejects months outside 1-12", () => {
+    expect(parseResumeDate("2022-00")).toBeNull();
+    expect(parseResumeDate("2022-13")).toBeNull();
+  });
+
+  it("rejects missing and non-ISO dates", () => {
+    expect(parseResumeDate()).toBeNull();
+    expect(parseResumeDate("")).toBeNull();
+    expect(parseResumeDate("March 2022")).toBeNull();
+  });
+
+  it("reads back what toIsoDate writes", () => {
+    for (const date of [{ year: 2022 }, { year: 2022, month: 3 }]) {
+      expect(parseResumeDate(toIsoDate(date))).toEqual(date);
+    }
+  });
+});
+
+describe("formatDuration", () => {
+  it("counts both boundary months", () => {
+    expect(
+      formatDuration({ year: 2022, month: 3 }, { year: 2023, month: 12 })
+    ).toBe("1 yr 10 mos");
+    expect(
+      formatDuration({ year: 2022, month: 3 }, { year: 2022, month: 3 })
+    ).toBe("1 mo");
+    expect(
+      formatDuration({ year: 2020, month: 1 }, { year: 2021, month: 12 })
+    ).toBe("2 yrs");
+  });
+
+  it("counts ongoing periods up to the current month", () => {
+    expect(
+      formatDuration(
+        { year: 2024, month: 11 },
+        null,
+        "en",
+        new Date(2025, 1, 10)
+      )
+    ).toBe("4 mos");
+  });
+
+  it("is unknown when a boundary only has a year", () => {
+    expect(
+      formatDuration({ year: 2022 }, { year: 2023, month: 1 })
+    ).toBeUndefined();
+    expect(
+      formatDuration({ year: 2022, month: 1 }, { year: 2023 })
+    ).toBeUndefined();
+  });
+
+  it("is unknown when the period ends before it starts", () => {
+    expect(
+      formatDuration({ year: 2023, month: 5 }, { year: 2022, month: 1 })
+    ).toBeUndefined();
+  });
+
+  it("uses the locale's units", () => {
+    expect(
+      formatDuration({ year: 2022, month: 3 }, { year: 2023, month: 12 }, "vi")
+    ).toBe("1 năm 10 tháng");
+  });
+});
+
+describe("formatPeriod", () => {
+  it("adds the duration when it is known", () => {
+    expect(
+      formatPeriod({ year: 2022, month: 3 }, { year: 2023, month: 12 })
+    ).toBe("Mar 2022 – Dec 2023 · 1 yr 10 mos");
+    expect(formatPeriod({ year: 2016 }, { year: 2018 })).toBe("2016 – 2018");
+  });
+});
+
+describe("sortByPeriod", () => {
+  it("puts ongoing periods first, then the latest end and start", () => {
+    const entries = [
+      { id: "old", start: { year: 2015 }, end: { year: 2018 } },
+      { id: "recent", start: { year: 2019 }, end: { year: 2021, month: 6 } },
+      { id: "ongoing", start: { year: 2021, month: 7 }, end: null },
+      { id: "longer", start: { year: 2017 }, end: { year: 2021, month: 6 } },
+    ];
+
+    expect(sortByPeriod(entries).map(({ id }) => id)).toEqual([
+      "ongoing",
+      "recent",
+      "longer",
+      "old",
+    ]);
+  });
+});
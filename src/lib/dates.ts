@@ -0,0 +1,208 @@
+import { DEFAULT_LOCALE, getMessages } from "@/lib/i18n";
+import type {
+  Locale,
+  ResumeCertification,
+  ResumeData,
+  ResumeDate,
+  ResumePublication,
+  ResumeWorkEntry,
+} from "@/lib/types";
+
+function currentDate(now: Date): Required<ResumeDate> {
+  return { year: now.getFullYear(), month: now.getMonth() + 1 };
+}
+
+/**
+ * Parses ISO 8601 calendar dates (`YYYY`, `YYYY-MM` or `YYYY-MM-DD`),
+ * keeping month precision when present. Returns null for months outside
+ * 1-12, such as `2022-00` or `2022-13`
+ */
+export function parseResumeDate(value?: string): ResumeDate | null {
+  const match = value?.trim().match(/^(\d{4})(?:-(\d{2}))?/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  if (match[2] === undefined) return { year };
+
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? { year, month } : null;
+}
+
+/**
+ * Formats a date as ISO 8601 (`2022-03` or `2022`)
+ */
+export function toIsoDate(date: ResumeDate): string {
+  return date.month
+    ? `${date.year}-${String(date.month).padStart(2, "0")}`
+    : String(date.year);
+}
+
+/**
+ * Formats a date for display (`Mar 2022` or `2022`, `03/2022` in Vietnamese)
+ */
+export function formatResumeDate(
+  date: ResumeDate,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return date.month
+    ? getMessages(locale).formatMonth(date.year, date.month)
+    : String(date.year);
+}
+
+/**
+ * Compares two dates, treating a missing month as the start of the year
+ * and `null` as ongoing (after every date)
+ */
+export function compareResumeDates(
+  a: ResumeDate | null,
+  b: ResumeDate | null
+): number {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  return a.year - b.year || (a.month ?? 1) - (b.month ?? 1);
+}
+
+/**
+ * Formats a period such as `Mar 2022 – Dec 2023`, `null` ends read "Present"
+ */
+export function formatDateRange(
+  start: ResumeDate,
+  end: ResumeDate | null,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const until = end
+    ? formatResumeDate(end, locale)
+    : getMessages(locale).present;
+  return `${formatResumeDate(start, locale)} – ${until}`;
+}
+
+/**
+ * Length of a period counting both boundary months, e.g. Mar 2022 to Dec
+ * 2023 is `1 yr 10 mos`. Returns undefined when either boundary only has a
+ * year, since the duration would be a guess
+ */
+export function formatDuration(
+  start: ResumeDate,
+  end: ResumeDate | null,
+  locale: Locale = DEFAULT_LOCALE,
+  now = new Date()
+): string | undefined {
+  const finish = end ?? currentDate(now);
+  if (!start.month || !finish.month) return undefined;
+
+  const months =
+    (finish.year - start.year) * 12 + (finish.month - start.month) + 1;
+  if (months <= 0) return undefined;
+
+  return getMessages(locale).formatDuration(
+    Math.floor(months / 12),
+    months % 12
+  );
+}
+
+/**
+ * Range plus duration when it is known, e.g.
+ * `Mar 2022 – Dec 2023 · 1 yr 10 mos`
+ */
+export function formatPeriod(
+  start: ResumeDate,
+  end: ResumeDate | null,
+  locale: Locale = DEFAULT_LOCALE,
+  now = new Date()
+): string {
+  const range = formatDateRange(start, end, locale);
+  const duration = formatDuration(start, end, locale, now);
+  return duration ? `${range} · ${duration}` : range;
+}
+
+/**
+ * Whether an expiry date has passed. A year-only expiry lasts until the end
+ * of that year, a missing expiry never lapses
+ */
+export function hasLapsed(
+  expires: ResumeDate | undefined,
+  now = new Date()
+): boolean {
+  if (!expires) return false;
+  const today = currentDate(now);
+  return (
+    expires.year < today.year ||
+    (expires.year === today.year &&
+      expires.month !== undefined &&
+      expires.month < today.month)
+  );
+}
+
+/**
+ * Sorts entries most recent first: ongoing entries lead, then by end and
+ * start date. The sort is stable, so entries with equal periods keep their
+ * authored order
+ */
+export function sortByPeriod<
+  T extends { start: ResumeDate; end: ResumeDate | null },
+>(entries: readonly T[]): T[] {
+  return [...entries].sort(
+    (a, b) =>
+      compareResumeDates(b.end, a.end) || compareResumeDates(b.start, a.start)
+  );
+}
+
+/**
+ * Time spent at a company, from the first role's start to the last role's
+ * end (`null` while any role is ongoing)
+ */
+export function workPeriod(entry: ResumeWorkEntry): {
+  start: ResumeDate;
+  end: ResumeDate | null;
+} {
+  const starts = entry.roles.map((role) => role.start).sort(compareResumeDates);
+  const ends = entry.roles.map((role) => role.end).sort(compareResumeDates);
+  return { start: starts[0], end: ends[ends.length - 1] };
+}
+
+/**
+ * Sorts roles within each company and companies by their overall period,
+ * most recent first
+ */
+export function sortWork(work: readonly ResumeWorkEntry[]): ResumeWorkEntry[] {
+  const entries = work.map((entry) => {
+    const sorted = { ...entry, roles: sortByPeriod(entry.roles) };
+    return { entry: sorted, ...workPeriod(sorted) };
+  });
+  return sortByPeriod(entries).map(({ entry }) => entry);
+}
+
+/**
+ * Most recently issued first
+ */
+export function sortCertifications(
+  certifications: readonly ResumeCertification[]
+): ResumeCertification[] {
+  return [...certifications].sort((a, b) =>
+    compareResumeDates(b.issued, a.issued)
+  );
+}
+
+/**
+ * Newest first
+ */
+export function sortPublications(
+  publications: readonly ResumePublication[]
+): ResumePublication[] {
+  return [...publications].sort((a, b) => compareResumeDates(b.date, a.date));
+}
+
+/**
+ * Puts work, education, certifications and publications in
+ * reverse-chronological order
+ */
+export function sortResumeChronologically(data: ResumeData): ResumeData {
+  return {
+    ...data,
+    education: sortByPeriod(data.education),
+    work: sortWork(data.work),
+    certifications: sortCertifications(data.certifications),
+    publications: sortPublications(data.publications),
+  };
+}
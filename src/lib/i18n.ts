@@ -0,0 +1,296 @@
+import type {
+  LanguageLevel,
+  Locale,
+  ProjectSort,
+  ProjectStatus,
+  PublicationType,
+  ResumeSection,
+  SkillLevel,
+} from "@/lib/types";
+
+export const LOCALES: Locale[] = ["en", "vi"];
+
+/** Served without a path prefix */
+export const DEFAULT_LOCALE: Locale = "en";
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as string[]).includes(value);
+}
+
+/** Labels shown by the command menu, which renders on the client */
+export interface CommandMenuMessages {
+  press: string;
+  toOpen: string;
+  placeholder: string;
+  empty: string;
+  actions: string;
+  print: string;
+  links: string;
+}
+
+/** Labels of the project filter and sort controls, rendered on the client */
+export interface ProjectFilterMessages {
+  filterByStatus: string;
+  all: string;
+  sortBy: string;
+  sorts: Record<ProjectSort, string>;
+  statuses: Record<ProjectStatus, string>;
+}
+
+/** UI labels and date wording for one locale */
+export interface Messages {
+  /** `og:locale` value such as `en_US` */
+  openGraphLocale: string;
+  resume: string;
+  resumeOf: (name: string) => string;
+  profilePictureOf: (name: string) => string;
+  /** Description of the resume page in structured data */
+  resumeDescription: (name: string, about: string) => string;
+  sections: Record<ResumeSection, string>;
+  present: string;
+  period: string;
+  employmentPeriod: string;
+  /** Month-precision date, `month` is 1-12 */
+  formatMonth: (year: number, month: number) => string;
+  formatDuration: (years: number, months: number) => string;
+  expired: string;
+  expires: string;
+  skillLevels: Record<SkillLevel, string>;
+  /** Levels spoken languages are shown with, CEFR levels are kept as is */
+  languageLevels: Record<Extract<LanguageLevel, "fluent" | "native">, string>;
+  publicationTypes: Record<PublicationType, string>;
+  /** Appended to the venue of a talk in citations */
+  talkSuffix: string;
+  /** Leads the co-author list, e.g. `with Jane Doe` */
+  with: string;
+  projectFilters: ProjectFilterMessages;
+  languages: string;
+  contactLinks: string;
+  /** Accessible names of lists, links and landmarks */
+  resumeContent: string;
+  quickNavigation: string;
+  locationOf: (location: string) => string;
+  skillList: string;
+  skillOf: (name: string, details: string) => string;
+  verify: (credential: string) => string;
+  companyWebsite: (company: string) => string;
+  technologiesUsed: string;
+  keyAchievements: string;
+  projectLink: (title: string) => string;
+  projectDescription: string;
+  outcomes: string;
+  personalWebsite: string;
+  email: string;
+  phone: string;
+  commandMenu: CommandMenuMessages;
+}
+
+const EN_MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+function pluralize(count: number, singular: string, plural: string) {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+const MESSAGES: Record<Locale, Messages> = {
+  en: {
+    openGraphLocale: "en_US",
+    resume: "Resume",
+    resumeOf: (name) => `${name}'s Resume`,
+    profilePictureOf: (name) => `${name}'s profile picture`,
+    resumeDescription: (name, about) =>
+      `Professional resume and portfolio of ${name}, ${about}`,
+    sections: {
+      summary: "About",
+      work: "Work Experience",
+      education: "Education",
+      certifications: "Certifications",
+      skills: "Skills",
+      projects: "Highlight projects",
+      publications: "Publications & Talks",
+    },
+    present: "Present",
+    period: "Period",
+    employmentPeriod: "Employment period",
+    formatMonth: (year, month) => `${EN_MONTHS[month - 1]} ${year}`,
+    formatDuration: (years, months) =>
+      [
+        years > 0 ? pluralize(years, "yr", "yrs") : "",
+        months > 0 ? pluralize(months, "mo", "mos") : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+    expired: "Expired",
+    expires: "Expires",
+    skillLevels: {
+      beginner: "Beginner",
+      intermediate: "Intermediate",
+      advanced: "Advanced",
+      expert: "Expert",
+    },
+    languageLevels: {
+      fluent: "Fluent",
+      native: "Native",
+    },
+    publicationTypes: {
+      article: "Article",
+      paper: "Paper",
+      talk: "Talk",
+    },
+    talkSuffix: "talk",
+    with: "with",
+    projectFilters: {
+      filterByStatus: "Filter projects by status",
+      all: "All",
+      sortBy: "Sort projects by",
+      sorts: {
+        featured: "Featured",
+        recent: "Most recent",
+        status: "Status",
+      },
+      statuses: {
+        active: "Active",
+        maintained: "Maintained",
+        archived: "Archived",
+      },
+    },
+    languages: "Languages",
+    contactLinks: "Contact links",
+    resumeContent: "Resume Content",
+    quickNavigation: "Quick navigation",
+    locationOf: (location) => `Location: ${location}`,
+    skillList: "List of skills",
+    skillOf: (name, details) =>
+      details ? `Skill: ${name} (${details})` : `Skill: ${name}`,
+    verify: (credential) => `Verify ${credential}`,
+    companyWebsite: (company) => `${company} company website`,
+    technologiesUsed: "Technologies used",
+    keyAchievements: "Key achievements",
+    projectLink: (title) => `${title} project (opens in new tab)`,
+    projectDescription: "Project description",
+    outcomes: "Outcomes",
+    personalWebsite: "Personal website",
+    email: "Email",
+    phone: "Phone",
+    commandMenu: {
+      press: "Press",
+      toOpen: "to open the command menu",
+      placeholder: "Type a command or search...",
+      empty: "No results found.",
+      actions: "Actions",
+      print: "Print",
+      links: "Links",
+    },
+  },
+  vi: {
+    openGraphLocale: "vi_VN",
+    resume: "Hồ sơ",
+    resumeOf: (name) => `Hồ sơ của ${name}`,
+    profilePictureOf: (name) => `Ảnh đại diện của ${name}`,
+    resumeDescription: (name, about) =>
+      `Hồ sơ năng lực và dự án của ${name}, ${about}`,
+    sections: {
+      summary: "Giới thiệu",
+      work: "Kinh nghiệm làm việc",
+      education: "Học vấn",
+      certifications: "Chứng chỉ",
+      skills: "Kỹ năng",
+      projects: "Dự án nổi bật",
+      publications: "Bài viết & Diễn thuyết",
+    },
+    present: "Hiện tại",
+    period: "Thời gian",
+    employmentPeriod: "Thời gian làm việc",
+    formatMonth: (year, month) => `${String(month).padStart(2, "0")}/${year}`,
+    formatDuration: (years, months) =>
+      [years > 0 ? `${years} năm` : "", months > 0 ? `${months} tháng` : ""]
+        .filter(Boolean)
+        .join(" "),
+    expired: "Đã hết hạn",
+    expires: "Hết hạn",
+    skillLevels: {
+      beginner: "Cơ bản",
+      intermediate: "Trung cấp",
+      advanced: "Nâng cao",
+      expert: "Chuyên gia",
+    },
+    languageLevels: {
+      fluent: "Thành thạo",
+      native: "Bản ngữ",
+    },
+    publicationTypes: {
+      article: "Bài viết",
+      paper: "Bài báo khoa học",
+      talk: "Bài nói",
+    },
+    talkSuffix: "bài nói",
+    with: "cùng",
+    projectFilters: {
+      filterByStatus: "Lọc dự án theo trạng thái",
+      all: "Tất cả",
+      sortBy: "Sắp xếp dự án theo",
+      sorts: {
+        featured: "Nổi bật",
+        recent: "Gần đây nhất",
+        status: "Trạng thái",
+      },
+      statuses: {
+        active: "Đang hoạt động",
+        maintained: "Đang duy trì",
+        archived: "Đã lưu trữ",
+      },
+    },
+    languages: "Ngôn ngữ",
+    contactLinks: "Liên kết liên hệ",
+    resumeContent: "Nội dung hồ sơ",
+    quickNavigation: "Điều hướng nhanh",
+    locationOf: (location) => `Địa điểm: ${location}`,
+    skillList: "Danh sách kỹ năng",
+    skillOf: (name, details) =>
+      details ? `Kỹ năng: ${name} (${details})` : `Kỹ năng: ${name}`,
+    verify: (credential) => `Xác minh ${credential}`,
+    companyWebsite: (company) => `Trang web của ${company}`,
+    technologiesUsed: "Công nghệ sử dụng",
+    keyAchievements: "Thành tích chính",
+    projectLink: (title) => `Dự án ${title} (mở trong thẻ mới)`,
+    projectDescription: "Mô tả dự án",
+    outcomes: "Kết quả",
+    personalWebsite: "Trang cá nhân",
+    email: "Email",
+    phone: "Điện thoại",
+    commandMenu: {
+      press: "Nhấn",
+      toOpen: "để mở bảng lệnh",
+      placeholder: "Nhập lệnh hoặc tìm kiếm...",
+      empty: "Không có kết quả.",
+      actions: "Thao tác",
+      print: "In",
+      links: "Liên kết",
+    },
+  },
+};
+
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return MESSAGES[locale];
+}
+
+/**
+ * Prefixes a path with the locale, leaving default-locale paths as they
+ * are, e.g. `/v/generic` becomes `/vi/v/generic`
+ */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "bun:test";
+import {
+  importJsonResume,
+  type JsonResume,
+  jsonResumeToResumeData,
+  resumeDataToJsonResume,
+} from "@/lib/json-resume";
+
+const RESUME: JsonResume = {
+  basics: {
+    name: "Jane Doe",
+    label: "Product Manager",
+    email: "jane@example.com",
+    phone: "+84123456789",
+    location: { city: "Hanoi", countryCode: "VN" },
+    profiles: [{ network: "GitHub", username: "jane" }],
+  },
+  work: [
+    {
+      name: "Acme",
+      position: "Product Manager",
+      startDate: "2022-03",
+      summary: "Leads the platform",
+      highlights: ["Shipped a CDP"],
+    },
+    {
+      name: "Acme",
+      position: "Analyst",
+      startDate: "2020-01",
+      endDate: "2022-02",
+    },
+  ],
+  education: [
+    {
+      institution: "Hanoi University",
+      studyType: "Bachelor",
+      area: "Computer Science",
+      startDate: "2014",
+      endDate: "2018",
+    },
+  ],
+  skills: [
+    { name: "Data", level: "Master", keywords: ["SQL", "BigQuery"] },
+    { name: "Figma", level: "Intermediate" },
+  ],
+};
+
+describe("jsonResumeToResumeData", () => {
+  it("converts the basics", () => {
+    const data = jsonResumeToResumeData(RESUME);
+
+    expect(data.name).toBe("Jane Doe");
+    expect(data.initials).toBe("JD");
+    expect(data.about).toBe("Product Manager");
+    expect(data.location).toBe("Hanoi, VN");
+    expect(data.contact.social).toEqual([
+      { name: "GitHub", url: "https://github.com/jane", icon: "github" },
+    ]);
+  });
+
+  it("groups positions at one company, most recent first", () => {
+    const [acme] = jsonResumeToResumeData(RESUME).work;
+
+    expect(acme.company).toBe("Acme");
+    expect(acme.roles).toEqual([
+      {
+        title: "Product Manager",
+        start: { year: 2022, month: 3 },
+        end: null,
+        description: [
+          { paragraph: "Leads the platform" },
+          { list: ["Shipped a CDP"] },
+        ],
+      },
+      {
+        title: "Analyst",
+        start: { year: 2020, month: 1 },
+        end: { year: 2022, month: 2 },
+        description: "",
+      },
+    ]);
+  });
+
+  it("applies a skill group's level to each of its keywords", () => {
+    expect(jsonResumeToResumeData(RESUME).skills).toEqual([
+      {
+        name: "Data",
+        skills: [
+          { name: "SQL", level: "expert" },
+          { name: "BigQuery", level: "expert" },
+        ],
+      },
+      { name: "Skills", skills: [{ name: "Figma", level: "intermediate" }] },
+    ]);
+  });
+
+  it("keeps the field of study apart from the degree", () => {
+    const [education] = jsonResumeToResumeData(RESUME).education;
+
+    expect(education.degree).toBe("Bachelor");
+    expect(education.area).toBe("Computer Science");
+  });
+});
+
+describe("importJsonResume", () => {
+  it("skips items missing a field and reports their path", () => {
+    const { data, skipped } = importJsonResume({
+      ...RESUME,
+      education: [{ institution: "Hanoi University" }],
+      certificates: [{ name: "PSM I", date: "2021-05" }],
+    });
+
+    expect(data.education).toEqual([]);
+    expect(data.certifications).toEqual([]);
+    expect(skipped).toEqual([
+      { path: "education[0].startDate", message: "is missing" },
+      { path: "certificates[0].issuer", message: "is missing" },
+    ]);
+  });
+
+  it("skips items with a month outside 1-12", () => {
+    const { data, skipped } = importJsonResume({
+      ...RESUME,
+      work: [
+        {
+          name: "Acme",
+          position: "Analyst",
+          startDate: "2020-01",
+          endDate: "2021-13",
+        },
+      ],
+    });
+
+    expect(data.work).toEqual([]);
+    expect(skipped).toEqual([
+      { path: "work[0].endDate", message: "must be an ISO 8601 date" },
+    ]);
+  });
+
+  it("stops without a name", () => {
+    expect(() => importJsonResume({ basics: {} })).toThrow(
+      "JSON Resume basics.name is missing"
+    );
+  });
+});
+
+describe("resumeDataToJsonResume", () => {
+  it("round-trips skill levels and fields of study", () => {
+    const resume = resumeDataToJsonResume(jsonResumeToResumeData(RESUME));
+
+    expect(resume.skills).toEqual([
+      { name: "Data", level: "expert", keywords: ["SQL", "BigQuery"] },
+      { name: "Figma", level: "intermediate" },
+    ]);
+    expect(resume.education?.[0]).toMatchObject({
+      studyType: "Bachelor",
+      area: "Computer Science",
+    });
+  });
+});
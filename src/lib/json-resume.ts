@@ -0,0 +1,642 @@
+import { formatAchievement } from "@/lib/achievements";
+import { formatLanguageLevel, parseLanguageLevel } from "@/lib/languages";
+import { parseResumeDate, sortResumeChronologically } from "@/lib/dates";
+import {
+  richTextToPlainText,
+  spanToPlainText,
+  toRichTextBlocks,
+} from "@/lib/rich-text";
+import {
+  type GraphQLAchievement,
+  type IconType,
+  type GraphQLCustomSection,
+  type GraphQLSkillGroup,
+  type ResumeCustomSection,
+  type ResumeData,
+  type ResumeDate,
+  type ResumeSkillGroup,
+  type ResumeValidationIssue,
+  type ResumeWorkEntry,
+  type RichText,
+  type SkillLevel,
+  resumeDataToGraphQL,
+} from "@/lib/types";
+
+export const JSON_RESUME_SCHEMA_URL =
+  "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+// Subset of the JSON Resume schema (https://jsonresume.org/schema) that maps
+// onto ResumeData
+export interface JsonResumeProfile {
+  network?: string;
+  username?: string;
+  url?: string;
+}
+
+export interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JsonResumeBasics {
+  name?: string;
+  label?: string;
+  image?: string;
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: JsonResumeLocation;
+  profiles?: JsonResumeProfile[];
+}
+
+export interface JsonResumeWork {
+  name?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+  institution?: string;
+  url?: string;
+  area?: string;
+  studyType?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface JsonResumeVolunteer {
+  organization?: string;
+  position?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+}
+
+export interface JsonResumeAward {
+  title?: string;
+  date?: string;
+  awarder?: string;
+  summary?: string;
+}
+
+export interface JsonResumeLanguage {
+  language?: string;
+  fluency?: string;
+}
+
+export interface JsonResumePublication {
+  name?: string;
+  publisher?: string;
+  releaseDate?: string;
+  url?: string;
+  summary?: string;
+}
+
+export interface JsonResumeCertificate {
+  name?: string;
+  date?: string;
+  issuer?: string;
+  url?: string;
+}
+
+export interface JsonResumeSkill {
+  name?: string;
+  level?: string;
+  keywords?: string[];
+}
+
+export interface JsonResumeProject {
+  name?: string;
+  description?: string;
+  highlights?: string[];
+  keywords?: string[];
+  startDate?: string;
+  endDate?: string;
+  url?: string;
+  roles?: string[];
+}
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: JsonResumeBasics;
+  work?: JsonResumeWork[];
+  volunteer?: JsonResumeVolunteer[];
+  education?: JsonResumeEducation[];
+  awards?: JsonResumeAward[];
+  certificates?: JsonResumeCertificate[];
+  publications?: JsonResumePublication[];
+  skills?: JsonResumeSkill[];
+  languages?: JsonResumeLanguage[];
+  projects?: JsonResumeProject[];
+}
+
+const PROFILE_ICONS: Array<[RegExp, IconType]> = [
+  [/github/i, "github"],
+  [/linkedin/i, "linkedin"],
+  [/^(x|twitter)$|twitter\.com|\/\/(www\.)?x\.com/i, "x"],
+];
+
+/**
+ * Picks the header icon for a JSON Resume profile from its network name or
+ * URL, falling back to a globe for networks without a dedicated icon
+ */
+export function inferIconType(network = "", url = ""): IconType {
+  for (const [pattern, icon] of PROFILE_ICONS) {
+    if (pattern.test(network) || pattern.test(url)) return icon;
+  }
+  return "globe";
+}
+
+/**
+ * A field JSON Resume leaves optional but ResumeData needs. Items missing one
+ * are skipped, a missing `basics.name` stops the import
+ */
+class MissingFieldError extends Error {
+  constructor(readonly issue: ResumeValidationIssue) {
+    super(`JSON Resume ${issue.path} ${issue.message}`);
+  }
+}
+
+function requireDate(value: string | undefined, path: string): ResumeDate {
+  const date = parseResumeDate(value);
+  if (!date) {
+    throw new MissingFieldError({
+      path,
+      message: value ? "must be an ISO 8601 date" : "is missing",
+    });
+  }
+  return date;
+}
+
+// Blank dates are null, such as the end of an ongoing period
+function optionalDate(
+  value: string | undefined,
+  path: string
+): ResumeDate | null {
+  return value?.trim() ? requireDate(value, path) : null;
+}
+
+function requireText(value: string | undefined, path: string): string {
+  const text = value?.trim();
+  if (!text) {
+    throw new MissingFieldError({ path, message: "is missing" });
+  }
+  return text;
+}
+
+/**
+ * Converts the items of a section, leaving out the ones missing a field and
+ * recording why in `skipped`
+ */
+function convertItems<T, R>(
+  items: T[] | undefined,
+  skipped: ResumeValidationIssue[],
+  convert: (item: T, index: number) => R
+): R[] {
+  return (items ?? []).flatMap((item, index) => {
+    try {
+      return [convert(item, index)];
+    } catch (error) {
+      if (!(error instanceof MissingFieldError)) throw error;
+      skipped.push(error.issue);
+      return [];
+    }
+  });
+}
+
+function toInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
+function formatLocation(location: JsonResumeLocation = {}): string {
+  return [location.city, location.region, location.countryCode]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function joinParagraph(summary = "", highlights: string[] = []): string {
+  return [summary, ...highlights]
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+function toRichText(summary = "", highlights: string[] = []): RichText {
+  const paragraph = summary.trim();
+  const list = highlights.map((text) => text.trim()).filter(Boolean);
+  if (list.length === 0) return paragraph;
+  return paragraph ? [{ paragraph }, { list }] : [{ list }];
+}
+
+/**
+ * Paragraphs become the summary, bullet points and achievements the
+ * highlights
+ */
+function fromRichText(
+  content: RichText,
+  achievements: GraphQLAchievement[] = []
+) {
+  const blocks = toRichTextBlocks(content);
+  const summary = richTextToPlainText(
+    blocks.filter((block) => "paragraph" in block)
+  );
+  const highlights = [
+    ...blocks.flatMap((block) =>
+      "list" in block ? block.list.map(spanToPlainText) : []
+    ),
+    ...achievements.map(formatAchievement),
+  ];
+
+  return {
+    summary: summary || undefined,
+    highlights: highlights.length > 0 ? highlights : undefined,
+  };
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+function profileUrl({ network = "", username, url }: JsonResumeProfile) {
+  if (url) return url;
+  if (!username) return undefined;
+
+  switch (inferIconType(network)) {
+    case "github":
+      return `https://github.com/${username}`;
+    case "linkedin":
+      return `https://www.linkedin.com/in/${username}/`;
+    case "x":
+      return `https://x.com/${username}`;
+    default:
+      return undefined;
+  }
+}
+
+const SKILL_LEVEL_ALIASES: Record<string, SkillLevel> = {
+  beginner: "beginner",
+  novice: "beginner",
+  intermediate: "intermediate",
+  advanced: "advanced",
+  expert: "expert",
+  master: "expert",
+};
+
+const DEFAULT_SKILL_GROUP = "Skills";
+
+function parseSkillLevel(level = ""): SkillLevel | undefined {
+  return SKILL_LEVEL_ALIASES[level.trim().toLowerCase()];
+}
+
+/**
+ * JSON Resume skills with keywords act as groups (`Web Development` with
+ * `HTML`, `CSS`) whose level applies to every keyword, skills without
+ * keywords are collected under one group
+ */
+function groupSkills(skills: JsonResumeSkill[]): ResumeSkillGroup[] {
+  const ungrouped: ResumeSkillGroup = { name: DEFAULT_SKILL_GROUP, skills: [] };
+  const groups: ResumeSkillGroup[] = [];
+
+  for (const skill of skills) {
+    if (!skill.name) continue;
+    const level = parseSkillLevel(skill.level);
+
+    if (skill.keywords?.length) {
+      groups.push({
+        name: skill.name,
+        skills: skill.keywords.map((name) => ({ name, level })),
+      });
+    } else {
+      ungrouped.skills.push({ name: skill.name, level });
+    }
+  }
+
+  return ungrouped.skills.length > 0 ? [...groups, ungrouped] : groups;
+}
+
+/**
+ * Skill groups as JSON Resume skills. The group of ungrouped skills is split
+ * up again, other groups keep a level their skills share
+ */
+function ungroupSkills(groups: GraphQLSkillGroup[]): JsonResumeSkill[] {
+  return groups.flatMap((group) => {
+    if (group.name === DEFAULT_SKILL_GROUP) {
+      return group.skills.map(({ name, level }) => ({ name, level }));
+    }
+
+    const levels = new Set(group.skills.map((skill) => skill.level));
+    return [
+      {
+        name: group.name,
+        level: levels.size === 1 ? [...levels][0] : undefined,
+        keywords: group.skills.map((skill) => skill.name),
+      },
+    ];
+  });
+}
+
+/**
+ * JSON Resume lists one work item per position, positions at the same
+ * company become roles of one entry
+ */
+function groupWorkByCompany(
+  work: JsonResumeWork[] | undefined,
+  skipped: ResumeValidationIssue[]
+): ResumeWorkEntry[] {
+  const entries = new Map<string, ResumeWorkEntry>();
+  const positions = convertItems(work, skipped, (item, index) => ({
+    company: requireText(item.name, `work[${index}].name`),
+    link: item.url || undefined,
+    role: {
+      title: requireText(item.position, `work[${index}].position`),
+      start: requireDate(item.startDate, `work[${index}].startDate`),
+      end: optionalDate(item.endDate, `work[${index}].endDate`),
+      description: toRichText(item.summary, item.highlights),
+    },
+  }));
+
+  for (const { company, link, role } of positions) {
+    const entry = entries.get(company);
+    if (entry) {
+      entry.link ??= link;
+      entry.roles.push(role);
+    } else {
+      entries.set(company, { company, link, badges: [], roles: [role] });
+    }
+  }
+
+  return [...entries.values()];
+}
+
+// JSON Resume sections that map onto custom sections, matched by title on
+// export
+const VOLUNTEER_SECTION = "Volunteering";
+const AWARDS_SECTION = "Awards";
+
+function toCustomSections(
+  resume: JsonResume,
+  skipped: ResumeValidationIssue[]
+): ResumeCustomSection[] {
+  const volunteer = convertItems(resume.volunteer, skipped, (item, index) => {
+    const start =
+      optionalDate(item.startDate, `volunteer[${index}].startDate`) ??
+      undefined;
+    return {
+      heading: requireText(item.position, `volunteer[${index}].position`),
+      subheading: item.organization || undefined,
+      start,
+      end: start && optionalDate(item.endDate, `volunteer[${index}].endDate`),
+      description: toRichText(item.summary, item.highlights) || undefined,
+      link: item.url || undefined,
+    };
+  });
+  const awards = convertItems(resume.awards, skipped, (award, index) => ({
+    heading: requireText(award.title, `awards[${index}].title`),
+    subheading: award.awarder || undefined,
+    start: optionalDate(award.date, `awards[${index}].date`) ?? undefined,
+    description: award.summary?.trim() || undefined,
+  }));
+
+  return [
+    { title: VOLUNTEER_SECTION, entries: volunteer },
+    { title: AWARDS_SECTION, entries: awards },
+  ].filter((section) => section.entries.length > 0);
+}
+
+function findSection(sections: GraphQLCustomSection[], title: string) {
+  return sections.find((section) => section.title === title)?.entries ?? [];
+}
+
+export interface JsonResumeImport {
+  data: ResumeData;
+  /** Items left out for a missing field, each with the path of the field */
+  skipped: ResumeValidationIssue[];
+}
+
+/**
+ * Converts a parsed JSON Resume document into ResumeData, skipping items
+ * that miss a field ResumeData cannot do without, such as the start date of
+ * an education item
+ */
+export function importJsonResume(resume: JsonResume): JsonResumeImport {
+  const { basics = {} } = resume;
+  const name = requireText(basics.name, "basics.name");
+  const location = formatLocation(basics.location);
+  const skipped: ResumeValidationIssue[] = [];
+
+  const data = sortResumeChronologically({
+    name,
+    initials: toInitials(name),
+    location,
+    locationLink: location
+      ? `https://www.google.com/maps/place/${location.replace(/\s+/g, "+")}`
+      : "",
+    about: basics.label ?? "",
+    summary: basics.summary ?? "",
+    avatarUrl: basics.image ?? "",
+    personalWebsiteUrl: basics.url ?? "",
+    languages: (resume.languages ?? []).flatMap(({ language, fluency }) =>
+      language ? [{ name: language, level: parseLanguageLevel(fluency) }] : []
+    ),
+    contact: {
+      email: basics.email ?? "",
+      tel: basics.phone ?? "",
+      social: (basics.profiles ?? []).flatMap((profile) => {
+        const url = profileUrl(profile);
+        if (!url) return [];
+        return [
+          {
+            name: profile.network ?? hostnameOf(url),
+            url,
+            icon: inferIconType(profile.network, url),
+          },
+        ];
+      }),
+    },
+    education: convertItems(resume.education, skipped, (education, index) => ({
+      school: requireText(
+        education.institution,
+        `education[${index}].institution`
+      ),
+      degree: education.studyType?.trim() ?? "",
+      area: education.area?.trim() || undefined,
+      start: requireDate(education.startDate, `education[${index}].startDate`),
+      end: optionalDate(education.endDate, `education[${index}].endDate`),
+    })),
+    work: groupWorkByCompany(resume.work, skipped),
+    certifications: convertItems(
+      resume.certificates,
+      skipped,
+      (certificate, index) => ({
+        name: requireText(certificate.name, `certificates[${index}].name`),
+        issuer: requireText(
+          certificate.issuer,
+          `certificates[${index}].issuer`
+        ),
+        issued: requireDate(certificate.date, `certificates[${index}].date`),
+        url: certificate.url || undefined,
+      })
+    ),
+    publications: convertItems(
+      resume.publications,
+      skipped,
+      (publication, index) => ({
+        type: "article",
+        title: requireText(publication.name, `publications[${index}].name`),
+        venue: requireText(
+          publication.publisher,
+          `publications[${index}].publisher`
+        ),
+        date: requireDate(
+          publication.releaseDate,
+          `publications[${index}].releaseDate`
+        ),
+        url: publication.url || undefined,
+      })
+    ),
+    skills: groupSkills(resume.skills ?? []),
+    projects: convertItems(resume.projects, skipped, (project, index) => {
+      const title = requireText(project.name, `projects[${index}].name`);
+      return {
+        title,
+        techStack: project.keywords ?? [],
+        description: joinParagraph(project.description, project.highlights),
+        link: project.url
+          ? { label: hostnameOf(project.url), href: project.url }
+          : undefined,
+        start:
+          optionalDate(project.startDate, `projects[${index}].startDate`) ??
+          undefined,
+        // An undated end means the project is ongoing
+        end: project.startDate
+          ? optionalDate(project.endDate, `projects[${index}].endDate`)
+          : undefined,
+        role: project.roles?.join(", ") || undefined,
+      };
+    }),
+    customSections: toCustomSections(resume, skipped),
+  });
+
+  return { data, skipped };
+}
+
+/**
+ * Converts a parsed JSON Resume document into ResumeData. Items missing a
+ * field ResumeData needs are left out, `importJsonResume` lists them
+ */
+export function jsonResumeToResumeData(resume: JsonResume): ResumeData {
+  return importJsonResume(resume).data;
+}
+
+function splitLocation(location: string): JsonResumeLocation | undefined {
+  const [city, ...rest] = location.split(",").map((part) => part.trim());
+  if (!city) return undefined;
+  return { city, region: rest.join(", ") || undefined };
+}
+
+/**
+ * Serialises ResumeData as a JSON Resume document, reusing the GraphQL
+ * flattening. Rich text loses its formatting, bullet lists become highlights
+ */
+export function resumeDataToJsonResume(data: ResumeData): JsonResume {
+  const resume = resumeDataToGraphQL(data);
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: resume.name,
+      label: resume.about,
+      image: resume.avatarUrl || undefined,
+      email: resume.contact.email || undefined,
+      phone: resume.contact.tel || undefined,
+      url: resume.personalWebsiteUrl || undefined,
+      summary: richTextToPlainText(resume.summary),
+      location: splitLocation(resume.location),
+      profiles: resume.contact.social.map(({ name, url }) => ({
+        network: name,
+        url,
+      })),
+    },
+    work: resume.work.flatMap((work) =>
+      work.roles.map((role) => ({
+        name: work.company,
+        position: role.title,
+        url: work.link || undefined,
+        startDate: role.start,
+        endDate: role.end,
+        ...fromRichText(role.description, role.achievements),
+      }))
+    ),
+    volunteer: findSection(resume.customSections, VOLUNTEER_SECTION).map(
+      (entry) => ({
+        organization: entry.subheading,
+        position: entry.heading,
+        url: entry.link,
+        startDate: entry.start,
+        endDate: entry.end,
+        ...fromRichText(entry.description ?? ""),
+      })
+    ),
+    education: resume.education.map((education) => ({
+      institution: education.school,
+      studyType: education.degree || undefined,
+      area: education.area,
+      startDate: education.start,
+      endDate: education.end,
+    })),
+    awards: findSection(resume.customSections, AWARDS_SECTION).map((entry) => ({
+      title: entry.heading,
+      date: entry.start,
+      awarder: entry.subheading,
+      summary: entry.description && richTextToPlainText(entry.description),
+    })),
+    certificates: resume.certifications.map((certification) => ({
+      name: certification.name,
+      date: certification.issued,
+      issuer: certification.issuer,
+      url: certification.url,
+    })),
+    publications: resume.publications.map((publication) => ({
+      name: publication.title,
+      publisher: publication.venue,
+      releaseDate: publication.date,
+      url: publication.url,
+    })),
+    skills: ungroupSkills(resume.skills),
+    languages: resume.languages.map(({ name, level }) => ({
+      language: name,
+      fluency: level && formatLanguageLevel(level),
+    })),
+    projects: resume.projects.map((project) => ({
+      name: project.title,
+      description: project.description,
+      highlights:
+        project.outcomes.length > 0
+          ? project.outcomes.map(formatAchievement)
+          : undefined,
+      keywords: project.techStack,
+      startDate: project.start,
+      endDate: project.end,
+      url: project.link?.href,
+      roles: project.role ? [project.role] : undefined,
+    })),
+  };
+}
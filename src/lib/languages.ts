@@ -0,0 +1,45 @@
+import { DEFAULT_LOCALE, getMessages } from "@/lib/i18n";
+import type { LanguageLevel, Locale, ResumeLanguage } from "@/lib/types";
+
+export const LANGUAGE_LEVELS: LanguageLevel[] = [
+  "A1",
+  "A2",
+  "B1",
+  "B2",
+  "C1",
+  "C2",
+  "fluent",
+  "native",
+];
+
+export function formatLanguageLevel(
+  level: LanguageLevel,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return level === "fluent" || level === "native"
+    ? getMessages(locale).languageLevels[level]
+    : level;
+}
+
+/**
+ * Compact form for the header, e.g. `English (C1)`
+ */
+export function formatLanguage(
+  { name, level }: ResumeLanguage,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return level ? `${name} (${formatLanguageLevel(level, locale)})` : name;
+}
+
+/**
+ * Reads free-form fluency such as `C1`, `Native speaker` or `Full
+ * professional proficiency`. Returns undefined when no level can be told
+ */
+export function parseLanguageLevel(fluency = ""): LanguageLevel | undefined {
+  const value = fluency.trim().toLowerCase();
+  const cefr = value.match(/\b([abc][12])\b/);
+  if (cefr) return cefr[1].toUpperCase() as LanguageLevel;
+  if (/native|mother tongue|bilingual/.test(value)) return "native";
+  if (/fluent|full professional/.test(value)) return "fluent";
+  return undefined;
+}
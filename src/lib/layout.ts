@@ -0,0 +1,67 @@
+import type {
+  ResumeCustomSection,
+  ResumeData,
+  ResumeSection,
+} from "@/lib/types";
+
+/** Order of the sections below the header when no layout is given */
+export const DEFAULT_SECTION_ORDER: ResumeSection[] = [
+  "summary",
+  "work",
+  "education",
+  "certifications",
+  "skills",
+  "projects",
+  "publications",
+];
+
+/**
+ * Every name a layout may refer to: the built-in sections followed by the
+ * custom section titles
+ */
+export function sectionNames(
+  customSections: readonly ResumeCustomSection[]
+): string[] {
+  return [
+    ...DEFAULT_SECTION_ORDER,
+    ...customSections.map((section) => section.title),
+  ];
+}
+
+/**
+ * Sections to render, in order. `layout.order` comes first, the remaining
+ * sections keep their default order and `layout.hide` drops sections
+ */
+export function orderSections(data: ResumeData): string[] {
+  const { order = [], hide = [] } = data.layout ?? {};
+  const names = sectionNames(data.customSections);
+  const ordered = new Set([
+    ...order.filter((name) => names.includes(name)),
+    ...names,
+  ]);
+  return [...ordered].filter((name) => !hide.includes(name));
+}
+
+/**
+ * Trims each section to `layout.maxItems`. Dated sections are sorted most
+ * recent first, so the oldest items are the ones left out
+ */
+export function limitSectionItems(data: ResumeData): ResumeData {
+  const maxItems = data.layout?.maxItems ?? {};
+  const limit = <T>(name: string, items: T[]): T[] =>
+    name in maxItems ? items.slice(0, maxItems[name]) : items;
+
+  return {
+    ...data,
+    work: limit("work", data.work),
+    education: limit("education", data.education),
+    certifications: limit("certifications", data.certifications),
+    skills: limit("skills", data.skills),
+    projects: limit("projects", data.projects),
+    publications: limit("publications", data.publications),
+    customSections: data.customSections.map((section) => ({
+      ...section,
+      entries: limit(section.title, section.entries),
+    })),
+  };
+}
@@ -0,0 +1,66 @@
+import type { Metadata } from "next";
+import { DEFAULT_LOCALE, getMessages, localizePath } from "@/lib/i18n";
+import type { Locale, ResumeData, ResumeVariant } from "@/lib/types";
+import { getVariantLocales, variantPath } from "@/lib/variants";
+
+/**
+ * Canonical URL of the variant in `locale` plus `hreflang` alternates for
+ * every locale it is published in
+ */
+function localeAlternates(variant: ResumeVariant, locale: Locale) {
+  const path = variantPath(variant.slug);
+
+  return {
+    canonical: localizePath(path, locale),
+    languages: {
+      ...Object.fromEntries(
+        getVariantLocales(variant).map((item) => [
+          item,
+          localizePath(path, item),
+        ])
+      ),
+      "x-default": localizePath(path, DEFAULT_LOCALE),
+    },
+  };
+}
+
+/**
+ * Builds page metadata for a resume in `locale`, pointing social cards at
+ * the `opengraph-image` generated next to the page
+ */
+export function generateResumeMetadata(
+  variant: ResumeVariant,
+  data: ResumeData,
+  locale: Locale
+): Metadata {
+  const messages = getMessages(locale);
+  const path = localizePath(variantPath(variant.slug), locale);
+  const imageUrl = `${path === "/" ? "" : path}/opengraph-image`;
+  const title = `${data.name} - ${messages.resume}`;
+
+  return {
+    title,
+    description: data.about,
+    alternates: localeAlternates(variant, locale),
+    openGraph: {
+      title,
+      description: data.about,
+      type: "profile",
+      locale: messages.openGraphLocale,
+      images: [
+        {
+          url: imageUrl,
+          width: 1200,
+          height: 630,
+          alt: messages.profilePictureOf(data.name),
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description: data.about,
+      images: [imageUrl],
+    },
+  };
+}
@@ -1,17 +1,15 @@
 import { ImageResponse } from "next/og";
-import { RESUME_DATA } from "../data/resume-data";
+import type { ResumeData } from "@/lib/types";
 
-export const runtime = "edge";
-
-export const alt = "Minimalist Resume";
-export const size = {
+export const OG_IMAGE_SIZE = {
   width: 1200,
   height: 630,
 };
 
-export const contentType = "image/png";
-
-export default async function Image() {
+/**
+ * Renders the social card for a resume
+ */
+export function createResumeImage(data: ResumeData) {
   return new ImageResponse(
     <div
       style={{
@@ -35,8 +33,8 @@ export default async function Image() {
       >
         {/* biome-ignore lint/performance/noImgElement: ImageResponse context requires img element */}
         <img
-          src={RESUME_DATA.avatarUrl}
-          alt={RESUME_DATA.name}
+          src={data.avatarUrl}
+          alt={data.name}
           style={{
             width: "150px",
             height: "150px",
@@ -52,7 +50,7 @@ export default async function Image() {
             marginBottom: "1rem",
           }}
         >
-          {RESUME_DATA.name}
+          {data.name}
         </div>
         <div
           style={{
@@ -62,7 +60,7 @@ export default async function Image() {
             lineHeight: "1.4",
           }}
         >
-          {RESUME_DATA.about}
+          {data.about}
         </div>
         <div
           style={{
@@ -71,16 +69,16 @@ export default async function Image() {
             gap: "1rem",
           }}
         >
-          {RESUME_DATA.contact.email && (
+          {data.contact.email && (
             <div style={{ fontSize: "1rem", color: "#666" }}>
-              {RESUME_DATA.personalWebsiteUrl}
+              {data.personalWebsiteUrl}
             </div>
           )}
         </div>
       </div>
     </div>,
     {
-      ...size,
+      ...OG_IMAGE_SIZE,
     }
   );
 }
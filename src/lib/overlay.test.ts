@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import { deepMerge, resolveResumeOverlay } from "@/lib/overlay";
+import type { ResumeData, ResumeWorkEntry } from "@/lib/types";
+
+function workEntry(
+  company: string,
+  start: number,
+  end: number | null
+): ResumeWorkEntry {
+  return {
+    company,
+    badges: [],
+    roles: [
+      {
+        title: "Product Manager",
+        start: { year: start, month: 1 },
+        end: end === null ? null : { year: end, month: 12 },
+        description: `Product work at ${company}`,
+        achievements: [
+          { text: "Grew revenue", tags: ["growth"] },
+          { text: "Shipped a CDP", tags: ["data"] },
+        ],
+      },
+    ],
+  };
+}
+
+const BASE: ResumeData = {
+  name: "Jane Doe",
+  initials: "JD",
+  location: "Hanoi, Vietnam",
+  locationLink: "https://www.google.com/maps/place/Hanoi",
+  about: "Product manager",
+  summary: "Builds products",
+  avatarUrl: "https://example.com/avatar.png",
+  personalWebsiteUrl: "https://example.com",
+  languages: [],
+  contact: {
+    email: "jane@example.com",
+    tel: "+84123456789",
+    social: [
+      { name: "GitHub", url: "https://github.com/jane", icon: "github" },
+    ],
+  },
+  education: [],
+  work: [
+    workEntry("Acme", 2022, null),
+    workEntry("Globex", 2019, 2021),
+    workEntry("Initech", 2016, 2018),
+  ],
+  certifications: [],
+  publications: [],
+  skills: [],
+  projects: [],
+  customSections: [],
+};
+
+describe("deepMerge", () => {
+  it("merges nested objects without mutating either side", () => {
+    const base = { a: { b: 1, c: 2 }, d: 3 };
+    const override = { a: { c: 4 } };
+
+    expect(deepMerge(base, override)).toEqual({ a: { b: 1, c: 4 }, d: 3 });
+    expect(base).toEqual({ a: { b: 1, c: 2 }, d: 3 });
+    expect(override).toEqual({ a: { c: 4 } });
+  });
+
+  it("replaces arrays instead of merging them", () => {
+    expect(deepMerge({ tags: ["a", "b"] }, { tags: ["c"] })).toEqual({
+      tags: ["c"],
+    });
+  });
+
+  it("keeps base values for undefined overrides", () => {
+    expect(deepMerge({ a: 1, b: 2 }, { a: undefined, b: 3 })).toEqual({
+      a: 1,
+      b: 3,
+    });
+  });
+});
+
+describe("resolveResumeOverlay", () => {
+  it("returns the base content for an empty overlay", () => {
+    expect(resolveResumeOverlay(BASE, {})).toEqual(BASE);
+  });
+
+  it("deep-merges contact details", () => {
+    const resolved = resolveResumeOverlay(BASE, {
+      contact: { email: "jobs@example.com" },
+    });
+
+    expect(resolved.contact.email).toBe("jobs@example.com");
+    expect(resolved.contact.tel).toBe(BASE.contact.tel);
+    expect(resolved.contact.social).toBe(BASE.contact.social);
+  });
+
+  it("hides, overrides and orders companies", () => {
+    const resolved = resolveResumeOverlay(BASE, {
+      work: {
+        hide: ["Initech"],
+        order: ["Globex"],
+        entries: {
+          Acme: {
+            roles: { "Product Manager": { description: "Tailored" } },
+          },
+        },
+      },
+    });
+
+    expect(resolved.work.map(({ company }) => company)).toEqual([
+      "Globex",
+      "Acme",
+    ]);
+    expect(resolved.work[1].roles[0].description).toBe("Tailored");
+  });
+
+  it("folds added roles into a listed company", () => {
+    const resolved = resolveResumeOverlay(BASE, {
+      work: {
+        add: [
+          {
+            company: "Acme",
+            badges: ["Remote"],
+            roles: [
+              {
+                title: "Analyst",
+                start: { year: 2020, month: 6 },
+                end: { year: 2021, month: 12 },
+                description: "Analysis",
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    const acme = resolved.work.find(({ company }) => company === "Acme");
+    expect(acme?.badges).toEqual(["Remote"]);
+    expect(acme?.roles.map(({ title }) => title)).toEqual([
+      "Product Manager",
+      "Analyst",
+    ]);
+  });
+
+  it("keeps achievements carrying one of the tags", () => {
+    const resolved = resolveResumeOverlay(BASE, {
+      work: { achievementTags: ["data"] },
+    });
+
+    expect(resolved.work[0].roles[0].achievements).toEqual([
+      { text: "Shipped a CDP", tags: ["data"] },
+    ]);
+  });
+
+  it("rejects unknown companies and roles", () => {
+    expect(() =>
+      resolveResumeOverlay(BASE, { work: { hide: ["Umbrella"] } })
+    ).toThrow('Resume overlay work.hide references unknown company "Umbrella"');
+    expect(() =>
+      resolveResumeOverlay(BASE, {
+        work: { entries: { Acme: { roles: { CEO: { title: "CTO" } } } } },
+      })
+    ).toThrow('references unknown role "CEO"');
+  });
+});
@@ -0,0 +1,199 @@
+import { isValidElement } from "react";
+import { selectAchievements } from "@/lib/achievements";
+import {
+  sortByPeriod,
+  sortCertifications,
+  sortPublications,
+  sortWork,
+} from "@/lib/dates";
+import type {
+  ResumeData,
+  ResumeOverlay,
+  ResumeWorkEntry,
+  ResumeWorkEntryOverride,
+} from "@/lib/types";
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[]
+    ? T[K]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !isValidElement(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Recursively merges `override` into `base` without mutating either.
+ * Undefined values keep the base value, arrays and React elements replace it
+ */
+export function deepMerge<T extends object>(
+  base: T,
+  override: DeepPartial<T>
+): T {
+  const result = { ...base } as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+
+    const current = result[key];
+    result[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? deepMerge(current, value)
+        : value;
+  }
+
+  return result as T;
+}
+
+function assertKnownCompanies(
+  work: ResumeWorkEntry[],
+  companies: string[],
+  field: string
+) {
+  const known = new Set(work.map((entry) => entry.company));
+  for (const company of companies) {
+    if (!known.has(company)) {
+      throw new Error(
+        `Resume overlay work.${field} references unknown company "${company}"`
+      );
+    }
+  }
+}
+
+function mergeEntry(
+  entry: ResumeWorkEntry,
+  override: ResumeWorkEntryOverride
+): ResumeWorkEntry {
+  const { roles = {}, ...fields } = override;
+
+  const known = new Set(entry.roles.map((role) => role.title));
+  for (const title of Object.keys(roles)) {
+    if (!known.has(title)) {
+      throw new Error(
+        `Resume overlay work.entries["${entry.company}"] references unknown role "${title}"`
+      );
+    }
+  }
+
+  return {
+    ...deepMerge(entry, fields),
+    // Static imports are objects too, but a new logo replaces the old one
+    logo: fields.logo ?? entry.logo,
+    roles: entry.roles.map((role) => {
+      const roleOverride = roles[role.title];
+      return roleOverride ? deepMerge(role, roleOverride) : role;
+    }),
+  };
+}
+
+/**
+ * Appends new entries, folding roles at an already listed company into its
+ * entry so they share one header
+ */
+function addEntries(
+  work: ResumeWorkEntry[],
+  add: ResumeWorkEntry[]
+): ResumeWorkEntry[] {
+  const result = [...work];
+
+  for (const entry of add) {
+    const index = result.findIndex(({ company }) => company === entry.company);
+    if (index === -1) {
+      result.push(entry);
+      continue;
+    }
+
+    const existing = result[index];
+    result[index] = {
+      ...existing,
+      link: existing.link ?? entry.link,
+      logo: existing.logo ?? entry.logo,
+      badges: [...new Set([...existing.badges, ...entry.badges])],
+      roles: [...existing.roles, ...entry.roles],
+    };
+  }
+
+  return result;
+}
+
+function resolveWork(
+  base: ResumeWorkEntry[],
+  overlay: ResumeOverlay["work"] = {}
+): ResumeWorkEntry[] {
+  const {
+    order = [],
+    hide = [],
+    entries = {},
+    add = [],
+    achievementTags = [],
+  } = overlay;
+
+  assertKnownCompanies(base, hide, "hide");
+  assertKnownCompanies(base, Object.keys(entries), "entries");
+
+  const hidden = new Set(hide);
+  const merged = base
+    .filter((entry) => !hidden.has(entry.company))
+    .map((entry) => {
+      const override = entries[entry.company];
+      return override ? mergeEntry(entry, override) : entry;
+    });
+
+  const work = sortWork(
+    addEntries(merged, add).map((entry) => ({
+      ...entry,
+      roles: entry.roles.map((role) =>
+        role.achievements
+          ? {
+              ...role,
+              achievements: selectAchievements(
+                role.achievements,
+                achievementTags
+              ),
+            }
+          : role
+      ),
+    }))
+  );
+
+  if (order.length === 0) return work;
+
+  assertKnownCompanies(work, order, "order");
+
+  const rank = (company: string) => {
+    const index = order.indexOf(company);
+    return index === -1 ? order.length : index;
+  };
+
+  return [...work].sort((a, b) => rank(a.company) - rank(b.company));
+}
+
+/**
+ * Produces a complete resume by applying a variant overlay to a base resume.
+ * Dated sections come out most recent first, then
+ * `work.order` pins the listed companies to the top
+ */
+export function resolveResumeOverlay(
+  base: ResumeData,
+  overlay: ResumeOverlay
+): ResumeData {
+  const { work, ...fields } = overlay;
+  const merged = deepMerge(base, fields);
+
+  return {
+    ...merged,
+    education: sortByPeriod(merged.education),
+    certifications: sortCertifications(merged.certifications),
+    publications: sortPublications(merged.publications),
+    work: resolveWork(base.work, work),
+  };
+}
@@ -0,0 +1,71 @@
+import { compareResumeDates } from "@/lib/dates";
+import type {
+  ProjectSort,
+  ProjectStatus,
+  ResumeDate,
+  ResumeProject,
+} from "@/lib/types";
+
+/** Most alive first, also the order of the `status` sort */
+export const PROJECT_STATUSES: ProjectStatus[] = [
+  "active",
+  "maintained",
+  "archived",
+];
+
+export const PROJECT_SORTS: ProjectSort[] = ["featured", "recent", "status"];
+
+type ProjectFields = Pick<ResumeProject, "status" | "start" | "end">;
+
+// One-off projects end when they start, `null` stays ongoing
+function projectEnd({ start, end }: ProjectFields): ResumeDate | null {
+  return end === undefined ? (start as ResumeDate) : end;
+}
+
+function compareRecency(a: ProjectFields, b: ProjectFields): number {
+  if (!a.start || !b.start) {
+    // Undated projects go last
+    return Number(!a.start) - Number(!b.start);
+  }
+  return (
+    compareResumeDates(projectEnd(b), projectEnd(a)) ||
+    compareResumeDates(b.start, a.start)
+  );
+}
+
+function compareStatus(a: ProjectFields, b: ProjectFields): number {
+  const rank = ({ status }: ProjectFields) =>
+    status ? PROJECT_STATUSES.indexOf(status) : PROJECT_STATUSES.length;
+  return rank(a) - rank(b);
+}
+
+/**
+ * Keeps projects with one of `statuses`, or all of them when none are given
+ */
+export function filterProjects<T extends Pick<ResumeProject, "status">>(
+  projects: readonly T[],
+  statuses: ProjectStatus[] = []
+): T[] {
+  if (statuses.length === 0) return [...projects];
+  return projects.filter(
+    (project) => project.status && statuses.includes(project.status)
+  );
+}
+
+/**
+ * Orders projects as featured (authored order), most recent first or by
+ * status. Sorts are stable, so ties keep the featured order
+ */
+export function sortProjects<T extends ProjectFields>(
+  projects: readonly T[],
+  sort: ProjectSort = "featured"
+): T[] {
+  switch (sort) {
+    case "recent":
+      return [...projects].sort(compareRecency);
+    case "status":
+      return [...projects].sort(compareStatus);
+    default:
+      return [...projects];
+  }
+}
@@ -0,0 +1,18 @@
+import { formatResumeDate } from "@/lib/dates";
+import { DEFAULT_LOCALE, getMessages } from "@/lib/i18n";
+import type { Locale, ResumePublication } from "@/lib/types";
+
+/**
+ * One-line citation for print and plain-text consumers, e.g.
+ * `Ban Nguyen, Jane Doe. "Scaling Marketplaces". Product Summit (talk), Mar 2024.`
+ */
+export function formatCitation(
+  { type, title, venue, date, coAuthors = [] }: ResumePublication,
+  author: string,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const authors = [author, ...coAuthors].join(", ");
+  const where =
+    type === "talk" ? `${venue} (${getMessages(locale).talkSuffix})` : venue;
+  return `${authors}. "${title}". ${where}, ${formatResumeDate(date, locale)}.`;
+}
@@ -0,0 +1,113 @@
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { sortResumeChronologically } from "@/lib/dates";
+import { resolveResumeOverlay } from "@/lib/overlay";
+import {
+  type GraphQLMe,
+  type Locale,
+  type ResumeData,
+  type ResumeVariant,
+  resumeDataToGraphQL,
+} from "@/lib/types";
+import { validateResumeData } from "@/lib/validation";
+import { DEFAULT_VARIANT_SLUG, getLocalizedData } from "@/lib/variants";
+
+// Kept out of src/data so edits never end up in a build by accident
+const STORE_PATH =
+  process.env.RESUME_STORE_PATH ?? join(process.cwd(), ".data", "resume.json");
+
+/**
+ * Reads the default resume as last edited through the API, undefined when
+ * it was never edited. A file that is not valid resume data, for example
+ * one edited by hand, is reported and ignored, so the bundled data is served
+ */
+export function readStoredResume(): ResumeData | undefined {
+  let data: ResumeData;
+  try {
+    data = JSON.parse(readFileSync(STORE_PATH, "utf8")) as ResumeData;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    if (!(error instanceof SyntaxError)) throw error;
+    console.warn(`Ignoring ${STORE_PATH}, it is not JSON: ${error.message}`);
+    return undefined;
+  }
+
+  const issues = validateResumeData(data);
+  if (issues.length > 0) {
+    console.warn(
+      `Ignoring ${STORE_PATH}, it is not valid resume data: ${issues
+        .map(({ path, message }) => `${path}: ${message}`)
+        .join("; ")}`
+    );
+    return undefined;
+  }
+  return data;
+}
+
+/**
+ * Swaps in the stored content for the default variant, with its translations
+ * resolved again on top of it. A translation that no longer fits the edited
+ * content, for example one naming a company that was removed, serves the
+ * edited content untranslated. Other variants are always built from their
+ * data modules
+ */
+export function applyStoredResume(variant: ResumeVariant): ResumeVariant {
+  if (variant.slug !== DEFAULT_VARIANT_SLUG) return variant;
+  const stored = readStoredResume();
+  if (!stored) return variant;
+
+  const translations: ResumeVariant["translations"] = {};
+  for (const [locale, overlay] of Object.entries(variant.overlays)) {
+    try {
+      translations[locale as Locale] = resolveResumeOverlay(stored, overlay);
+    } catch (error) {
+      console.warn(
+        `Serving ${locale} untranslated, its overlay does not fit the stored resume: ${(error as Error).message}`
+      );
+      translations[locale as Locale] = stored;
+    }
+  }
+  return { ...variant, data: stored, translations };
+}
+
+/**
+ * A variant as served by the GraphQL and REST APIs, including edits of the
+ * default resume. Locales without a translation fall back to the default
+ * content
+ */
+export function variantToGraphQL(
+  variant: ResumeVariant,
+  locale: Locale
+): GraphQLMe & { slug: string } {
+  const current = applyStoredResume(variant);
+  const data = getLocalizedData(current, locale) ?? current.data;
+  return { slug: variant.slug, ...resumeDataToGraphQL(data, locale) };
+}
+
+// Writes run one at a time so concurrent edits cannot overwrite each other
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Applies `update` to the stored resume, or to `base` on the first edit, and
+ * saves the result in reverse-chronological order. Nothing is written when
+ * `update` throws
+ */
+export function updateStoredResume(
+  base: ResumeData,
+  update: (data: ResumeData) => ResumeData
+): Promise<ResumeData> {
+  const result = queue.then(async () => {
+    const data = sortResumeChronologically(update(readStoredResume() ?? base));
+
+    // Written next to the store and renamed, so readers never see half a file
+    const temporary = `${STORE_PATH}.tmp`;
+    await mkdir(dirname(STORE_PATH), { recursive: true });
+    await writeFile(temporary, `${JSON.stringify(data, null, 2)}\n`);
+    await rename(temporary, STORE_PATH);
+    return data;
+  });
+
+  queue = result.catch(() => undefined);
+  return result;
+}
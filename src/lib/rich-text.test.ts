@@ -0,0 +1,96 @@
+import { describe, expect, it } from "bun:test";
+import { formatRichText, richTextLinks } from "@/lib/rich-text";
+import type { RichText } from "@/lib/types";
+
+const CONTENT: RichText = [
+  {
+    paragraph: [
+      "Led ",
+      { text: "MoMo Travel", href: "https://momo.vn", bold: true },
+      " growth",
+    ],
+  },
+  { list: ["Grew GMV", [{ text: "CDP", italic: true }, " rollout"]] },
+];
+
+describe("formatRichText", () => {
+  it("serialises paragraphs and lists as plain text", () => {
+    expect(formatRichText(CONTENT, "plain")).toBe(
+      "Led MoMo Travel growth\n• Grew GMV\n• CDP rollout"
+    );
+  });
+
+  it("serialises paragraphs and lists as Markdown", () => {
+    expect(formatRichText(CONTENT, "markdown")).toBe(
+      "Led [**MoMo Travel**](https://momo.vn) growth\n\n- Grew GMV\n- _CDP_ rollout"
+    );
+  });
+
+  it("serialises paragraphs and lists as HTML", () => {
+    expect(formatRichText(CONTENT, "html")).toBe(
+      '<p>Led <a href="https://momo.vn"><strong>MoMo Travel</strong></a> growth</p><ul><li>Grew GMV</li><li><em>CDP</em> rollout</li></ul>'
+    );
+  });
+
+  it("treats a string as one paragraph", () => {
+    expect(formatRichText("Plain *text*", "markdown")).toBe("Plain \\*text\\*");
+    expect(formatRichText("Plain <text>", "html")).toBe(
+      "<p>Plain &lt;text&gt;</p>"
+    );
+  });
+
+  it("escapes Markdown block markers at the start of a line", () => {
+    expect(
+      formatRichText(
+        [
+          { paragraph: "# 1 in sales" },
+          { paragraph: "2024. A record year\n- not a list\n> not a quote" },
+          { list: ["1) first", "+ plus", "-5% churn"] },
+        ],
+        "markdown"
+      )
+    ).toBe(
+      "\\# 1 in sales\n\n2024\\. A record year\n\\- not a list\n\\> not a quote\n\n- 1\\) first\n- \\+ plus\n- -5% churn"
+    );
+  });
+
+  it("percent-encodes characters that would end a Markdown link", () => {
+    expect(
+      formatRichText(
+        [
+          {
+            paragraph: {
+              text: "Wiki",
+              href: "https://en.wikipedia.org/wiki/Go_(game) x",
+            },
+          },
+        ],
+        "markdown"
+      )
+    ).toBe("[Wiki](https://en.wikipedia.org/wiki/Go_%28game%29%20x)");
+  });
+
+  it("escapes link targets in HTML", () => {
+    expect(
+      formatRichText(
+        [{ paragraph: { text: "Search", href: 'https://x.io/?q="a"&b' } }],
+        "html"
+      )
+    ).toBe('<p><a href="https://x.io/?q=&quot;a&quot;&amp;b">Search</a></p>');
+  });
+});
+
+describe("richTextLinks", () => {
+  it("lists link targets in document order", () => {
+    expect(
+      richTextLinks([
+        { paragraph: { text: "A", href: "https://a.io" } },
+        { list: [[" B ", { text: "C", href: "https://c.io" }]] },
+      ])
+    ).toEqual(["https://a.io", "https://c.io"]);
+  });
+
+  it("finds none in plain strings", () => {
+    expect(richTextLinks("https://a.io")).toEqual([]);
+  });
+});
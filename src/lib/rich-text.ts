@@ -0,0 +1,161 @@
+import type {
+  RichText,
+  RichTextBlock,
+  RichTextInline,
+  RichTextSpan,
+} from "@/lib/types";
+
+export type RichTextFormat = "plain" | "markdown" | "html";
+
+export const RICH_TEXT_FORMATS: RichTextFormat[] = [
+  "markdown",
+  "html",
+  "plain",
+];
+
+/**
+ * Normalises rich text to blocks, a plain string becomes a single paragraph
+ */
+export function toRichTextBlocks(content: RichText): RichTextBlock[] {
+  return typeof content === "string" ? [{ paragraph: content }] : content;
+}
+
+export function toInlines(span: RichTextSpan): RichTextInline[] {
+  return Array.isArray(span) ? span : [span];
+}
+
+function inlineText(inline: RichTextInline): string {
+  return typeof inline === "string" ? inline : inline.text;
+}
+
+export function spanToPlainText(span: RichTextSpan): string {
+  return toInlines(span).map(inlineText).join("");
+}
+
+/**
+ * Every link target in the content, in document order
+ */
+export function richTextLinks(content: RichText): string[] {
+  return toRichTextBlocks(content).flatMap((block) =>
+    ("paragraph" in block ? [block.paragraph] : block.list)
+      .flatMap(toInlines)
+      .flatMap((inline) =>
+        typeof inline !== "string" && inline.href !== undefined
+          ? [inline.href]
+          : []
+      )
+  );
+}
+
+/**
+ * Drops emphasis and links, list items become `•` lines
+ */
+export function richTextToPlainText(content: RichText): string {
+  return toRichTextBlocks(content)
+    .map((block) =>
+      "paragraph" in block
+        ? spanToPlainText(block.paragraph)
+        : block.list.map((item) => `• ${spanToPlainText(item)}`).join("\n")
+    )
+    .join("\n");
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]]/g, "\\$&");
+}
+
+// Text that Markdown would read as a heading, quote, list item or rule when
+// it starts a line
+const BLOCK_MARKER = /^(\s*)(#|>|[-+=](?=\s|$)|[-=]{2,}|\d+(?=[.)](?:\s|$)))/gm;
+
+function escapeBlockMarkers(markdown: string): string {
+  return markdown.replace(BLOCK_MARKER, (_, indent: string, marker: string) =>
+    /\d/.test(marker) ? `${indent}${marker}\\` : `${indent}\\${marker}`
+  );
+}
+
+// Characters that end a link destination or break it up
+function escapeHref(href: string): string {
+  return href.replace(
+    /[\s()<>]/g,
+    (char) =>
+      `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`
+  );
+}
+
+function inlineToMarkdown(inline: RichTextInline): string {
+  if (typeof inline === "string") return escapeMarkdown(inline);
+
+  let markdown = escapeMarkdown(inline.text);
+  if (inline.italic) markdown = `_${markdown}_`;
+  if (inline.bold) markdown = `**${markdown}**`;
+  if (inline.href) markdown = `[${markdown}](${escapeHref(inline.href)})`;
+  return markdown;
+}
+
+function spanToMarkdown(span: RichTextSpan): string {
+  return escapeBlockMarkers(toInlines(span).map(inlineToMarkdown).join(""));
+}
+
+export function richTextToMarkdown(content: RichText): string {
+  return toRichTextBlocks(content)
+    .map((block) =>
+      "paragraph" in block
+        ? spanToMarkdown(block.paragraph)
+        : block.list.map((item) => `- ${spanToMarkdown(item)}`).join("\n")
+    )
+    .join("\n\n");
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function inlineToHtml(inline: RichTextInline): string {
+  if (typeof inline === "string") return escapeHtml(inline);
+
+  let html = escapeHtml(inline.text);
+  if (inline.italic) html = `<em>${html}</em>`;
+  if (inline.bold) html = `<strong>${html}</strong>`;
+  if (inline.href) html = `<a href="${escapeHtml(inline.href)}">${html}</a>`;
+  return html;
+}
+
+function spanToHtml(span: RichTextSpan): string {
+  return toInlines(span).map(inlineToHtml).join("");
+}
+
+export function richTextToHtml(content: RichText): string {
+  return toRichTextBlocks(content)
+    .map((block) =>
+      "paragraph" in block
+        ? `<p>${spanToHtml(block.paragraph)}</p>`
+        : `<ul>${block.list.map((item) => `<li>${spanToHtml(item)}</li>`).join("")}</ul>`
+    )
+    .join("");
+}
+
+/**
+ * Serialises rich text for consumers outside React
+ */
+export function formatRichText(
+  content: RichText,
+  format: RichTextFormat
+): string {
+  switch (format) {
+    case "plain":
+      return richTextToPlainText(content);
+    case "markdown":
+      return richTextToMarkdown(content);
+    case "html":
+      return richTextToHtml(content);
+  }
+}
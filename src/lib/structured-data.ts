@@ -1,86 +1,104 @@
-import { RESUME_DATA } from "@/data/resume-data";
+import { toIsoDate } from "@/lib/dates";
+import { DEFAULT_LOCALE, getMessages } from "@/lib/i18n";
+import type { Locale, ResumeData } from "@/lib/types";
 
-export function generatePersonStructuredData() {
+export function generatePersonStructuredData(data: ResumeData) {
   return {
     "@context": "https://schema.org",
     "@type": "Person",
-    name: RESUME_DATA.name,
-    alternateName: RESUME_DATA.initials,
-    description: RESUME_DATA.about,
-    url: RESUME_DATA.personalWebsiteUrl,
-    image: RESUME_DATA.avatarUrl,
-    sameAs: RESUME_DATA.contact.social.map((social) => social.url),
+    name: data.name,
+    alternateName: data.initials,
+    description: data.about,
+    url: data.personalWebsiteUrl,
+    image: data.avatarUrl,
+    sameAs: data.contact.social.map((social) => social.url),
     address: {
       "@type": "Place",
-      name: RESUME_DATA.location,
+      name: data.location,
     },
     contactPoint: {
       "@type": "ContactPoint",
-      email: RESUME_DATA.contact.email,
-      telephone: RESUME_DATA.contact.tel,
+      email: data.contact.email,
+      telephone: data.contact.tel,
       contactType: "personal",
     },
-    jobTitle: "Full Stack Engineer",
+    // Title of the most recent position
+    jobTitle: data.work[0]?.roles[0]?.title,
     worksFor:
-      RESUME_DATA.work.length > 0
+      data.work.length > 0
         ? {
             "@type": "Organization",
-            name: RESUME_DATA.work[0].company,
-            url: RESUME_DATA.work[0].link,
+            name: data.work[0].company,
+            url: data.work[0].link,
           }
         : undefined,
-    alumniOf: RESUME_DATA.education.map((edu) => ({
+    alumniOf: data.education.map((edu) => ({
       "@type": "EducationalOrganization",
       name: edu.school,
     })),
-    hasOccupation: RESUME_DATA.work.map((job) => ({
-      "@type": "Occupation",
-      name: job.title,
-      occupationLocation: {
-        "@type": "Place",
-        name: RESUME_DATA.location,
-      },
-      occupationalCategory: "Software Engineering",
-      estimatedSalary: {
-        "@type": "MonetaryAmountDistribution",
-        name: "Professional software engineer",
+    hasOccupation: data.work
+      .flatMap((job) => job.roles)
+      .map((role) => ({
+        "@type": "Occupation",
+        name: role.title,
+        occupationLocation: {
+          "@type": "Place",
+          name: data.location,
+        },
+        occupationalCategory: "Software Engineering",
+        estimatedSalary: {
+          "@type": "MonetaryAmountDistribution",
+          name: "Professional software engineer",
+        },
+      })),
+    knowsLanguage: data.languages.map((language) => ({
+      "@type": "Language",
+      name: language.name,
+      alternateName: language.code,
+    })),
+    hasCredential: data.certifications.map((certification) => ({
+      "@type": "EducationalOccupationalCredential",
+      name: certification.name,
+      credentialCategory: "certification",
+      identifier: certification.credentialId,
+      url: certification.url,
+      dateCreated: toIsoDate(certification.issued),
+      expires: certification.expires && toIsoDate(certification.expires),
+      recognizedBy: {
+        "@type": "Organization",
+        name: certification.issuer,
       },
     })),
-    knowsAbout: RESUME_DATA.skills,
+    knowsAbout: data.skills.flatMap((group) =>
+      group.skills.map((skill) => ({
+        "@type": "DefinedTerm",
+        name: skill.name,
+        inDefinedTermSet: {
+          "@type": "DefinedTermSet",
+          name: group.name,
+        },
+      }))
+    ),
   };
 }
 
-export function generateWebPageStructuredData() {
-  return {
-    "@context": "https://schema.org",
-    "@type": "WebPage",
-    name: `${RESUME_DATA.name} - Resume`,
-    description: RESUME_DATA.about,
-    url: "https://cv.jarocki.me",
-    inLanguage: "en-US",
-    isPartOf: {
-      "@type": "WebSite",
-      name: `${RESUME_DATA.name}'s Professional Resume`,
-      url: "https://cv.jarocki.me",
-    },
-    about: {
-      "@type": "Person",
-      name: RESUME_DATA.name,
-    },
-    mainEntity: generatePersonStructuredData(),
-  };
-}
+export function generateResumeStructuredData(
+  data: ResumeData,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const messages = getMessages(locale);
 
-export function generateResumeStructuredData() {
   return {
     "@context": "https://schema.org",
     "@type": "ProfilePage",
     dateCreated: new Date().toISOString(),
     dateModified: new Date().toISOString(),
-    mainEntity: generatePersonStructuredData(),
-    about: generatePersonStructuredData(),
-    name: `${RESUME_DATA.name} - Professional Resume`,
-    description: `Professional resume and portfolio of ${RESUME_DATA.name}, ${RESUME_DATA.about}`,
+    mainEntity: generatePersonStructuredData(data),
+    about: generatePersonStructuredData(data),
+    name: messages.resumeOf(data.name),
+    description: messages.resumeDescription(data.name, data.about),
+    // Language tag of the page, e.g. `en-US` from the `en_US` Open Graph locale
+    inLanguage: messages.openGraphLocale.replace("_", "-"),
     url: "https://cv.jarocki.me",
   };
 }
@@ -1,18 +1,70 @@
 import type { StaticImageData } from "next/image";
+import { formatMetric } from "@/lib/achievements";
+import { formatEntryDates } from "@/lib/custom-sections";
+import {
+  formatDateRange,
+  formatDuration,
+  hasLapsed,
+  toIsoDate,
+  workPeriod,
+} from "@/lib/dates";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+import { formatCitation } from "@/lib/publications";
 
-export type ResumeIcon = React.ComponentType<React.SVGProps<SVGSVGElement>> | StaticImageData;
+export type ResumeIcon =
+  | React.ComponentType<React.SVGProps<SVGSVGElement>>
+  | StaticImageData;
+
+/** Languages the resume and its UI labels are published in */
+export type Locale = "en" | "vi";
+
+/** Static import from `src/images/logos` or an image URL */
+export type ResumeLogo = string | StaticImageData;
 
 export type IconType = "github" | "linkedin" | "x" | "globe" | "mail" | "phone";
 
+/** Calendar date with optional month precision, `month` is 1-12 */
+export interface ResumeDate {
+  year: number;
+  month?: number;
+}
+
+/**
+ * A run of text, optionally emphasised or linked. Plain strings are the
+ * common case
+ */
+export type RichTextInline =
+  | string
+  | {
+      text: string;
+      bold?: boolean;
+      italic?: boolean;
+      href?: string;
+    };
+
+/** One inline element or a sequence of them */
+export type RichTextSpan = RichTextInline | RichTextInline[];
+
+export type RichTextBlock =
+  | { paragraph: RichTextSpan }
+  | { list: RichTextSpan[] };
+
+/**
+ * Serialisable rich text: a plain string or a sequence of paragraphs and
+ * bullet lists
+ */
+export type RichText = string | RichTextBlock[];
+
 export interface ResumeData {
   name: string;
   initials: string;
   location: string;
   locationLink: string;
   about: string;
-  summary: string | React.ReactNode;
+  summary: RichText;
   avatarUrl: string;
   personalWebsiteUrl: string;
+  languages: ResumeLanguage[];
   contact: {
     email: string;
     tel: string;
@@ -24,29 +76,247 @@ export interface ResumeData {
   };
   education: Array<{
     school: string;
+    /** e.g. `Bachelor's Degree`, may be left empty when `area` is set */
     degree: string;
-    start: string;
-    end: string;
-  }>;
-  work: Array<{
-    company: string;
-    link: string;
-    badges: string[];
-    title: string;
-    start: string;
-    end: string | null;
-    description: string | React.ReactNode;
-  }>;
-  skills: string[];
-  projects: Array<{
-    title: string;
-    techStack: string[];
-    description: string;
-    link?: {
-      label: string;
-      href: string;
-    };
+    /** Field of study, e.g. `Computer Science` */
+    area?: string;
+    start: ResumeDate;
+    /** `null` while still studying */
+    end: ResumeDate | null;
   }>;
+  work: ResumeWorkEntry[];
+  certifications: ResumeCertification[];
+  publications: ResumePublication[];
+  skills: ResumeSkillGroup[];
+  /** In the order they are featured */
+  projects: ResumeProject[];
+  /** Extra sections such as Volunteering or Awards, shown after projects */
+  customSections: ResumeCustomSection[];
+  /** Section order, visibility and length, defaults to showing everything */
+  layout?: ResumeLayout;
+}
+
+/** Built-in sections below the header */
+export type ResumeSection =
+  | "summary"
+  | "work"
+  | "education"
+  | "certifications"
+  | "skills"
+  | "projects"
+  | "publications";
+
+/**
+ * How the page and the printed resume lay out the sections below the
+ * header. Sections are named by their `ResumeSection` key, custom sections by
+ * their title
+ */
+export interface ResumeLayout {
+  /** Sections to show first, unlisted ones follow in their default order */
+  order?: string[];
+  /** Sections to leave out */
+  hide?: string[];
+  /**
+   * Number of items to show per section, e.g. `{ work: 4 }` keeps the four
+   * most recent companies. Skills count groups, custom sections entries
+   */
+  maxItems?: Record<string, number>;
+}
+
+/**
+ * An item in a custom section. Leave out `end` for single-date entries such
+ * as an award, set it to `null` for ongoing ones
+ */
+export interface ResumeCustomEntry {
+  heading: string;
+  subheading?: string;
+  start?: ResumeDate;
+  end?: ResumeDate | null;
+  description?: RichText;
+  tags?: string[];
+  link?: string;
+}
+
+/** A titled list of entries rendered without a dedicated component */
+export interface ResumeCustomSection {
+  title: string;
+  entries: ResumeCustomEntry[];
+}
+
+/**
+ * Whether a project is still worked on. Active projects get a green
+ * indicator, archived ones a grey one
+ */
+export type ProjectStatus = "active" | "maintained" | "archived";
+
+/** `featured` keeps the authored order */
+export type ProjectSort = "featured" | "recent" | "status";
+
+/**
+ * A highlighted project. Leave out `end` for one-off projects, set it to
+ * `null` for ongoing ones
+ */
+export interface ResumeProject {
+  title: string;
+  techStack: string[];
+  description: string;
+  link?: {
+    label: string;
+    href: string;
+  };
+  status?: ProjectStatus;
+  start?: ResumeDate;
+  end?: ResumeDate | null;
+  /** Role on the project, e.g. `Product lead` */
+  role?: string;
+  /** Measurable results, shown below the description */
+  outcomes?: ResumeAchievement[];
+}
+
+export type PublicationType = "article" | "paper" | "talk";
+
+/** An article, paper or conference talk */
+export interface ResumePublication {
+  type: PublicationType;
+  title: string;
+  /** Conference, journal or publisher */
+  venue: string;
+  date: ResumeDate;
+  /** Other authors or speakers, the resume owner is implied */
+  coAuthors?: string[];
+  url?: string;
+}
+
+/** CEFR level, or `fluent`/`native` where no test score applies */
+export type LanguageLevel =
+  | "A1"
+  | "A2"
+  | "B1"
+  | "B2"
+  | "C1"
+  | "C2"
+  | "fluent"
+  | "native";
+
+export interface ResumeLanguage {
+  name: string;
+  /** BCP 47 language tag such as `vi` or `en-GB` */
+  code?: string;
+  level?: LanguageLevel;
+}
+
+export interface ResumeCertification {
+  name: string;
+  issuer: string;
+  credentialId?: string;
+  issued: ResumeDate;
+  /** Leave out for credentials that do not expire */
+  expires?: ResumeDate;
+  /** Verification page */
+  url?: string;
+}
+
+export type SkillLevel = "beginner" | "intermediate" | "advanced" | "expert";
+
+export interface ResumeSkill {
+  name: string;
+  level?: SkillLevel;
+  /** Year the skill was last used, leave out for current skills */
+  lastUsed?: number;
+}
+
+/** Skills under a heading such as Product, Data or Engineering */
+export interface ResumeSkillGroup {
+  name: string;
+  skills: ResumeSkill[];
+}
+
+/** A position held at a company */
+export interface ResumeWorkRole {
+  title: string;
+  start: ResumeDate;
+  /** `null` for the current position */
+  end: ResumeDate | null;
+  description: RichText;
+  /** Shown as bullets below the description */
+  achievements?: ResumeAchievement[];
+}
+
+/**
+ * An employer with every position held there, so promotions share one
+ * company header
+ */
+export interface ResumeWorkEntry {
+  company: string;
+  link?: string;
+  /** Shown next to the company name, initials stand in when it fails to load */
+  logo?: ResumeLogo;
+  badges: string[];
+  /** Most recent first */
+  roles: ResumeWorkRole[];
+}
+
+export interface ResumeMetric {
+  value: number;
+  /** `%`, `x`, `pp` or a word such as `suppliers` */
+  unit?: string;
+}
+
+/**
+ * A measurable result. The metric is shown in front of the text, e.g.
+ * `{ metric: { value: 100, unit: "%" }, text: "revenue increase" }`
+ */
+export interface ResumeAchievement {
+  text: string;
+  metric?: ResumeMetric;
+  /** Used by variants to pick relevant achievements */
+  tags?: string[];
+}
+
+export interface ResumeWorkEntryOverride
+  extends Partial<Omit<ResumeWorkEntry, "roles">> {
+  /** Role overrides keyed by title */
+  roles?: Record<string, Partial<ResumeWorkRole>>;
+}
+
+/**
+ * Changes a tailored variant applies on top of a base resume. Plain objects
+ * are deep-merged, arrays and rich text replace the base value
+ */
+export interface ResumeOverlay
+  extends Partial<Omit<ResumeData, "contact" | "work">> {
+  contact?: Partial<ResumeData["contact"]>;
+  work?: {
+    /** Companies to show first, unlisted entries follow most recent first */
+    order?: string[];
+    /** Companies to leave out of the variant */
+    hide?: string[];
+    /** Field overrides per company, e.g. a tailored description */
+    entries?: Record<string, ResumeWorkEntryOverride>;
+    /**
+     * Entries that are not part of the base resume. Roles at a company that
+     * is already listed join its entry
+     */
+    add?: ResumeWorkEntry[];
+    /** Only keep achievements carrying at least one of these tags */
+    achievementTags?: string[];
+  };
+}
+
+export interface ResumeVariant {
+  slug: string;
+  /** Content in the default locale */
+  data: ResumeData;
+  /** Content in other locales, a locale without an entry is not published */
+  translations: Partial<Record<Locale, ResumeData>>;
+  /** Overlays the translations are resolved from, applied on top of `data` */
+  overlays: Partial<Record<Locale, ResumeOverlay>>;
+}
+
+export interface ResumeValidationIssue {
+  /** Field path such as `work[2].link` */
+  path: string;
+  message: string;
 }
 
 // GraphQL compatible types (without React components)
@@ -56,26 +326,91 @@ export interface GraphQLSocial {
 }
 
 export interface GraphQLContact {
-  email: string;
-  tel: string;
+  email?: string;
+  tel?: string;
   social: GraphQLSocial[];
 }
 
 export interface GraphQLEducation {
   school: string;
   degree: string;
+  area?: string;
   start: string;
-  end: string;
+  /** Left out while ongoing */
+  end?: string;
+  period: string;
+  duration?: string;
+}
+
+export interface GraphQLWorkRole {
+  title: string;
+  start: string;
+  end?: string;
+  period: string;
+  duration?: string;
+  description: RichText;
+  achievements: GraphQLAchievement[];
 }
 
 export interface GraphQLWork {
   company: string;
-  link: string;
+  link?: string;
+  logo?: string;
   badges: string[];
-  title: string;
   start: string;
-  end: string;
-  description: string;
+  end?: string;
+  period: string;
+  duration?: string;
+  roles: GraphQLWorkRole[];
+}
+
+export interface GraphQLMetric {
+  value: number;
+  unit?: string;
+  formatted: string;
+}
+
+export interface GraphQLAchievement {
+  text: string;
+  metric?: GraphQLMetric;
+  tags: string[];
+}
+
+export interface GraphQLLanguage {
+  name: string;
+  code?: string;
+  level?: LanguageLevel;
+}
+
+export interface GraphQLCertification {
+  name: string;
+  issuer: string;
+  credentialId?: string;
+  issued: string;
+  expires?: string;
+  url?: string;
+  expired: boolean;
+}
+
+export interface GraphQLPublication {
+  type: PublicationType;
+  title: string;
+  venue: string;
+  date: string;
+  coAuthors: string[];
+  url?: string;
+  citation: string;
+}
+
+export interface GraphQLSkill {
+  name: string;
+  level?: SkillLevel;
+  lastUsed?: number;
+}
+
+export interface GraphQLSkillGroup {
+  name: string;
+  skills: GraphQLSkill[];
 }
 
 export interface GraphQLLink {
@@ -88,69 +423,189 @@ export interface GraphQLProject {
   techStack: string[];
   description: string;
   link?: GraphQLLink;
+  status?: ProjectStatus;
+  start?: string;
+  end?: string;
+  ongoing: boolean;
+  period?: string;
+  role?: string;
+  outcomes: GraphQLAchievement[];
+}
+
+export interface GraphQLCustomEntry {
+  heading: string;
+  subheading?: string;
+  start?: string;
+  end?: string;
+  ongoing: boolean;
+  period?: string;
+  description?: RichText;
+  tags: string[];
+  link?: string;
+}
+
+export interface GraphQLCustomSection {
+  title: string;
+  entries: GraphQLCustomEntry[];
 }
 
 export interface GraphQLMe {
+  locale: Locale;
   name: string;
   initials: string;
   location: string;
   locationLink: string;
   about: string;
-  summary: string;
-  avatarUrl: string;
-  personalWebsiteUrl: string;
+  summary: RichText;
+  avatarUrl?: string;
+  personalWebsiteUrl?: string;
+  languages: GraphQLLanguage[];
   contact: GraphQLContact;
   education: GraphQLEducation[];
   work: GraphQLWork[];
-  skills: string[];
+  certifications: GraphQLCertification[];
+  publications: GraphQLPublication[];
+  skills: GraphQLSkillGroup[];
   projects: GraphQLProject[];
+  customSections: GraphQLCustomSection[];
+}
+
+// Dates as ISO 8601 strings plus the formatted range and duration
+function periodToGraphQL(
+  start: ResumeDate,
+  end: ResumeDate | null,
+  locale: Locale
+) {
+  return {
+    start: toIsoDate(start),
+    end: end ? toIsoDate(end) : undefined,
+    period: formatDateRange(start, end, locale),
+    duration: formatDuration(start, end, locale),
+  };
+}
+
+function achievementToGraphQL(
+  achievement: ResumeAchievement
+): GraphQLAchievement {
+  return {
+    text: achievement.text,
+    metric: achievement.metric && {
+      ...achievement.metric,
+      formatted: formatMetric(achievement.metric),
+    },
+    tags: achievement.tags ?? [],
+  };
 }
 
-// Helper function to convert React content to string
-export function reactToString(content: React.ReactNode): string {
-  if (typeof content === "string") return content;
-  if (Array.isArray(content)) {
-    return content.map(reactToString).join("");
-  }
-  if (typeof content === "object" && content && "props" in content) {
-    const { children } = content.props;
-    if (children) return reactToString(children);
-  }
-  return "";
+// ISO dates of an entry whose `end` is left out for single-date entries and
+// `null` for ongoing ones
+function entryDatesToGraphQL(
+  entry: Pick<ResumeCustomEntry, "start" | "end">,
+  locale: Locale
+) {
+  return {
+    start: entry.start && toIsoDate(entry.start),
+    end: entry.end ? toIsoDate(entry.end) : undefined,
+    ongoing: entry.end === null,
+    period: formatEntryDates(entry, locale),
+  };
 }
 
-// Transform function to convert ResumeData to GraphQL compatible format
-export function resumeDataToGraphQL(data: ResumeData): GraphQLMe {
+// Transform function to convert ResumeData to GraphQL compatible format,
+// formatted periods and citations use the wording of `locale`
+export function resumeDataToGraphQL(
+  data: ResumeData,
+  locale: Locale = DEFAULT_LOCALE
+): GraphQLMe {
   return {
+    locale,
     name: data.name,
     initials: data.initials,
     location: data.location,
     locationLink: data.locationLink,
     about: data.about,
-    summary: reactToString(data.summary),
-    avatarUrl: data.avatarUrl,
-    personalWebsiteUrl: data.personalWebsiteUrl,
+    summary: data.summary,
+    // Empty strings mark unset fields in resume data
+    avatarUrl: data.avatarUrl || undefined,
+    personalWebsiteUrl: data.personalWebsiteUrl || undefined,
+    languages: data.languages.map(({ name, code, level }) => ({
+      name,
+      code,
+      level,
+    })),
     contact: {
-      email: data.contact.email,
-      tel: data.contact.tel,
+      email: data.contact.email || undefined,
+      tel: data.contact.tel || undefined,
       social: data.contact.social.map(({ name, url }) => ({ name, url })),
     },
-    education: data.education,
-    work: data.work.map((job) => ({
-      company: job.company,
-      link: job.link,
-      badges: job.badges,
-      title: job.title,
-      start: job.start,
-      end: job.end || "Present",
-      description: reactToString(job.description),
+    education: data.education.map((education) => ({
+      school: education.school,
+      degree: education.degree,
+      area: education.area,
+      ...periodToGraphQL(education.start, education.end, locale),
+    })),
+    work: data.work.map((job) => {
+      const { start, end } = workPeriod(job);
+      return {
+        company: job.company,
+        link: job.link,
+        logo: typeof job.logo === "object" ? job.logo.src : job.logo,
+        badges: job.badges,
+        ...periodToGraphQL(start, end, locale),
+        roles: job.roles.map((role) => ({
+          title: role.title,
+          ...periodToGraphQL(role.start, role.end, locale),
+          description: role.description,
+          achievements: (role.achievements ?? []).map(achievementToGraphQL),
+        })),
+      };
+    }),
+    certifications: data.certifications.map((certification) => ({
+      name: certification.name,
+      issuer: certification.issuer,
+      credentialId: certification.credentialId,
+      issued: toIsoDate(certification.issued),
+      expires: certification.expires && toIsoDate(certification.expires),
+      url: certification.url,
+      expired: hasLapsed(certification.expires),
+    })),
+    publications: data.publications.map((publication) => ({
+      type: publication.type,
+      title: publication.title,
+      venue: publication.venue,
+      date: toIsoDate(publication.date),
+      coAuthors: publication.coAuthors ?? [],
+      url: publication.url,
+      citation: formatCitation(publication, data.name, locale),
+    })),
+    skills: data.skills.map((group) => ({
+      name: group.name,
+      skills: group.skills.map(({ name, level, lastUsed }) => ({
+        name,
+        level,
+        lastUsed,
+      })),
     })),
-    skills: data.skills,
     projects: data.projects.map((project) => ({
       title: project.title,
       techStack: project.techStack,
       description: project.description,
       link: project.link,
+      status: project.status,
+      ...entryDatesToGraphQL(project, locale),
+      role: project.role,
+      outcomes: (project.outcomes ?? []).map(achievementToGraphQL),
+    })),
+    customSections: data.customSections.map((section) => ({
+      title: section.title,
+      entries: section.entries.map((entry) => ({
+        heading: entry.heading,
+        subheading: entry.subheading,
+        ...entryDatesToGraphQL(entry, locale),
+        description: entry.description,
+        tags: entry.tags ?? [],
+        link: entry.link,
+      })),
     })),
   };
 }
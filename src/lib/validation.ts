@@ -0,0 +1,701 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsLocale,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPhoneNumber,
+  IsUrl,
+  isURL,
+  Max,
+  Min,
+  Validate,
+  type ValidationArguments,
+  type ValidationError,
+  ValidateIf,
+  ValidateNested,
+  ValidatorConstraint,
+  type ValidatorConstraintInterface,
+  validateSync,
+} from "class-validator";
+import { compareResumeDates, toIsoDate } from "@/lib/dates";
+import { richTextLinks, richTextToPlainText } from "@/lib/rich-text";
+import { LANGUAGE_LEVELS } from "@/lib/languages";
+import { sectionNames } from "@/lib/layout";
+import { PROJECT_STATUSES } from "@/lib/projects";
+import type {
+  IconType,
+  LanguageLevel,
+  ProjectStatus,
+  PublicationType,
+  ResumeAchievement,
+  ResumeCustomSection,
+  ResumeData,
+  ResumeDate,
+  ResumeLayout,
+  ResumeLogo,
+  ResumeValidationIssue,
+  RichText,
+  SkillLevel,
+} from "@/lib/types";
+
+const ICON_TYPES: IconType[] = [
+  "github",
+  "linkedin",
+  "x",
+  "globe",
+  "mail",
+  "phone",
+];
+
+const PUBLICATION_TYPES: PublicationType[] = ["article", "paper", "talk"];
+
+const SKILL_LEVELS: SkillLevel[] = [
+  "beginner",
+  "intermediate",
+  "advanced",
+  "expert",
+];
+
+function isResumeDate(value: unknown): value is ResumeDate {
+  if (typeof value !== "object" || value === null) return false;
+  const { year, month } = value as Partial<ResumeDate>;
+  return (
+    Number.isInteger(year) &&
+    (year as number) >= 1900 &&
+    (year as number) <= 2100 &&
+    (month === undefined ||
+      (Number.isInteger(month) && month >= 1 && month <= 12))
+  );
+}
+
+/**
+ * Requires a `{ year, month? }` date with a four-digit year and a 1-12 month
+ */
+@ValidatorConstraint({ name: "isResumeDate" })
+class IsResumeDate implements ValidatorConstraintInterface {
+  validate(date: unknown) {
+    return isResumeDate(date);
+  }
+
+  defaultMessage({ property }: ValidationArguments) {
+    return `${property} must be a date with a year and an optional 1-12 month`;
+  }
+}
+
+/**
+ * Requires a logo to be an image URL, a site path such as `/logos/acme.png`
+ * or a static image import
+ */
+@ValidatorConstraint({ name: "isLogo" })
+class IsLogo implements ValidatorConstraintInterface {
+  validate(logo: unknown) {
+    // Bun resolves static imports to a file path when validating outside Next
+    if (typeof logo === "string") return isURL(logo) || logo.startsWith("/");
+    return (
+      typeof logo === "object" &&
+      logo !== null &&
+      typeof (logo as { src?: unknown }).src === "string"
+    );
+  }
+
+  defaultMessage({ property }: ValidationArguments) {
+    return `${property} must be an image URL, a site path or a static image import`;
+  }
+}
+
+function startProperty({ constraints }: ValidationArguments): string {
+  return constraints?.[0] ?? "start";
+}
+
+/**
+ * Rejects periods whose end comes before the start of the same object. The
+ * start property defaults to `start`, pass another name as the constraint,
+ * e.g. `@Validate(EndNotBeforeStart, ["issued"])`
+ */
+@ValidatorConstraint({ name: "endNotBeforeStart" })
+class EndNotBeforeStart implements ValidatorConstraintInterface {
+  validate(end: unknown, args: ValidationArguments) {
+    const start = (args.object as Record<string, unknown>)[startProperty(args)];
+    if (!isResumeDate(start) || !isResumeDate(end)) return true;
+    return compareResumeDates(start, end) <= 0;
+  }
+
+  defaultMessage(args: ValidationArguments) {
+    const name = startProperty(args);
+    const start = (args.object as Record<string, ResumeDate>)[name];
+    return `${args.property} must not be before ${name} (${toIsoDate(start)})`;
+  }
+}
+
+function invalidRichTextLink(content: RichText): string | undefined {
+  return richTextLinks(content).find((href) => !isURL(href));
+}
+
+/**
+ * Requires rich text to contain some text and only link to URLs
+ */
+@ValidatorConstraint({ name: "isRichText" })
+class IsRichText implements ValidatorConstraintInterface {
+  validate(content: RichText) {
+    return (
+      richTextToPlainText(content).trim().length > 0 &&
+      invalidRichTextLink(content) === undefined
+    );
+  }
+
+  defaultMessage({ property, value }: ValidationArguments) {
+    const href = invalidRichTextLink(value);
+    return href === undefined
+      ? `${property} should not be empty`
+      : `${property} links to "${href}", which is not a URL`;
+  }
+}
+
+/**
+ * Requires a record of positive whole numbers, e.g. `{ work: 4 }`
+ */
+@ValidatorConstraint({ name: "isItemLimits" })
+class IsItemLimits implements ValidatorConstraintInterface {
+  validate(limits: unknown) {
+    return (
+      typeof limits === "object" &&
+      limits !== null &&
+      Object.values(limits).every(
+        (limit) => Number.isInteger(limit) && limit > 0
+      )
+    );
+  }
+
+  defaultMessage({ property }: ValidationArguments) {
+    return `${property} must map section names to positive whole numbers`;
+  }
+}
+
+function unknownSections(
+  layout: ResumeLayout,
+  customSections: ResumeCustomSection[] = []
+): string[] {
+  const names = sectionNames(customSections);
+  return [
+    ...(layout.order ?? []),
+    ...(layout.hide ?? []),
+    ...Object.keys(layout.maxItems ?? {}),
+  ].filter((name) => !names.includes(name));
+}
+
+/**
+ * Requires every section a layout names to be a built-in section or the
+ * title of one of the resume's custom sections
+ */
+@ValidatorConstraint({ name: "knownSections" })
+class KnownSections implements ValidatorConstraintInterface {
+  validate(layout: ResumeLayout, { object }: ValidationArguments) {
+    const { customSections } = object as ResumeDataSchema;
+    return unknownSections(layout, customSections).length === 0;
+  }
+
+  defaultMessage({ property, value, object }: ValidationArguments) {
+    const { customSections } = object as ResumeDataSchema;
+    const unknown = unknownSections(value, customSections).join(", ");
+    return `${property} refers to unknown sections: ${unknown}`;
+  }
+}
+
+class SocialSchema {
+  @IsNotEmpty()
+  name: string;
+
+  @IsUrl()
+  url: string;
+
+  @IsIn(ICON_TYPES)
+  icon: IconType;
+}
+
+class LanguageSchema {
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsLocale()
+  code?: string;
+
+  @IsOptional()
+  @IsIn(LANGUAGE_LEVELS)
+  level?: LanguageLevel;
+}
+
+class ContactSchema {
+  @ValidateIf((contact: ContactSchema) => contact.email !== "")
+  @IsEmail()
+  email: string;
+
+  @ValidateIf((contact: ContactSchema) => contact.tel !== "")
+  @IsPhoneNumber()
+  tel: string;
+
+  @ValidateNested({ each: true })
+  social: SocialSchema[];
+}
+
+class EducationSchema {
+  @IsNotEmpty()
+  school: string;
+
+  @ValidateIf((education: EducationSchema) => !education.area)
+  @IsNotEmpty()
+  degree: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  area?: string;
+
+  @Validate(IsResumeDate)
+  start: ResumeDate;
+
+  @ValidateIf((education: EducationSchema) => education.end !== null)
+  @Validate(IsResumeDate)
+  @Validate(EndNotBeforeStart)
+  end: ResumeDate | null;
+}
+
+class MetricSchema {
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  value: number;
+
+  @IsOptional()
+  @IsNotEmpty()
+  unit?: string;
+}
+
+class AchievementSchema {
+  @IsNotEmpty()
+  text: string;
+
+  @IsOptional()
+  @ValidateNested()
+  metric?: MetricSchema;
+
+  @IsOptional()
+  @IsArray()
+  @IsNotEmpty({ each: true })
+  @ArrayUnique()
+  tags?: string[];
+}
+
+class WorkRoleSchema {
+  @IsNotEmpty()
+  title: string;
+
+  @Validate(IsResumeDate)
+  start: ResumeDate;
+
+  @ValidateIf((role: WorkRoleSchema) => role.end !== null)
+  @Validate(IsResumeDate)
+  @Validate(EndNotBeforeStart)
+  end: ResumeDate | null;
+
+  @Validate(IsRichText)
+  description: RichText;
+
+  @IsOptional()
+  @ValidateNested({ each: true })
+  achievements?: AchievementSchema[];
+}
+
+class WorkSchema {
+  @IsNotEmpty()
+  company: string;
+
+  @IsOptional()
+  @IsUrl()
+  link?: string;
+
+  @IsOptional()
+  @Validate(IsLogo)
+  logo?: ResumeLogo;
+
+  @IsArray()
+  @IsNotEmpty({ each: true })
+  @ArrayUnique()
+  badges: string[];
+
+  // Overlays address roles by title
+  @ArrayNotEmpty()
+  @ArrayUnique((role: WorkRoleSchema) => role.title, {
+    message: "roles must have unique titles",
+  })
+  @ValidateNested({ each: true })
+  roles: WorkRoleSchema[];
+}
+
+class CertificationSchema {
+  @IsNotEmpty()
+  name: string;
+
+  @IsNotEmpty()
+  issuer: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  credentialId?: string;
+
+  @Validate(IsResumeDate)
+  issued: ResumeDate;
+
+  @IsOptional()
+  @Validate(IsResumeDate)
+  @Validate(EndNotBeforeStart, ["issued"])
+  expires?: ResumeDate;
+
+  @IsOptional()
+  @IsUrl()
+  url?: string;
+}
+
+class PublicationSchema {
+  @IsIn(PUBLICATION_TYPES)
+  type: PublicationType;
+
+  @IsNotEmpty()
+  title: string;
+
+  @IsNotEmpty()
+  venue: string;
+
+  @Validate(IsResumeDate)
+  date: ResumeDate;
+
+  @IsOptional()
+  @IsArray()
+  @IsNotEmpty({ each: true })
+  @ArrayUnique()
+  coAuthors?: string[];
+
+  @IsOptional()
+  @IsUrl()
+  url?: string;
+}
+
+class SkillSchema {
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsIn(SKILL_LEVELS)
+  level?: SkillLevel;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  lastUsed?: number;
+}
+
+class SkillGroupSchema {
+  @IsNotEmpty()
+  name: string;
+
+  @ArrayNotEmpty()
+  @ArrayUnique((skill: SkillSchema) => skill.name, {
+    message: "skills must not repeat a skill",
+  })
+  @ValidateNested({ each: true })
+  skills: SkillSchema[];
+}
+
+class LinkSchema {
+  @IsNotEmpty()
+  label: string;
+
+  @IsUrl()
+  href: string;
+}
+
+class ProjectSchema {
+  @IsNotEmpty()
+  title: string;
+
+  @IsArray()
+  @IsNotEmpty({ each: true })
+  @ArrayUnique()
+  techStack: string[];
+
+  @IsNotEmpty()
+  description: string;
+
+  @IsOptional()
+  @ValidateNested()
+  link?: LinkSchema;
+
+  @IsOptional()
+  @IsIn(PROJECT_STATUSES)
+  status?: ProjectStatus;
+
+  // A period needs its start even when it is still ongoing
+  @ValidateIf(
+    (project: ProjectSchema) =>
+      project.start !== undefined || project.end !== undefined
+  )
+  @Validate(IsResumeDate)
+  start?: ResumeDate;
+
+  @ValidateIf(
+    (project: ProjectSchema) =>
+      project.end !== undefined && project.end !== null
+  )
+  @Validate(IsResumeDate)
+  @Validate(EndNotBeforeStart)
+  end?: ResumeDate | null;
+
+  @IsOptional()
+  @IsNotEmpty()
+  role?: string;
+
+  @IsOptional()
+  @ValidateNested({ each: true })
+  outcomes?: AchievementSchema[];
+}
+
+class CustomEntrySchema {
+  @IsNotEmpty()
+  heading: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  subheading?: string;
+
+  // A period needs its start even when it is still ongoing
+  @ValidateIf(
+    (entry: CustomEntrySchema) =>
+      entry.start !== undefined || entry.end !== undefined
+  )
+  @Validate(IsResumeDate)
+  start?: ResumeDate;
+
+  @ValidateIf(
+    (entry: CustomEntrySchema) => entry.end !== undefined && entry.end !== null
+  )
+  @Validate(IsResumeDate)
+  @Validate(EndNotBeforeStart)
+  end?: ResumeDate | null;
+
+  @IsOptional()
+  @Validate(IsRichText)
+  description?: RichText;
+
+  @IsOptional()
+  @IsArray()
+  @IsNotEmpty({ each: true })
+  @ArrayUnique()
+  tags?: string[];
+
+  @IsOptional()
+  @IsUrl()
+  link?: string;
+}
+
+class CustomSectionSchema {
+  @IsNotEmpty()
+  title: string;
+
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  entries: CustomEntrySchema[];
+}
+
+class LayoutSchema {
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  order?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  hide?: string[];
+
+  @IsOptional()
+  @Validate(IsItemLimits)
+  maxItems?: Record<string, number>;
+}
+
+class ResumeDataSchema {
+  @IsNotEmpty()
+  name: string;
+
+  @IsNotEmpty()
+  initials: string;
+
+  @IsNotEmpty()
+  location: string;
+
+  @IsUrl()
+  locationLink: string;
+
+  @IsNotEmpty()
+  about: string;
+
+  @Validate(IsRichText)
+  summary: RichText;
+
+  @ValidateIf((data: ResumeDataSchema) => data.avatarUrl !== "")
+  @IsUrl()
+  avatarUrl: string;
+
+  @ValidateIf((data: ResumeDataSchema) => data.personalWebsiteUrl !== "")
+  @IsUrl()
+  personalWebsiteUrl: string;
+
+  @ArrayUnique((language: LanguageSchema) => language.name, {
+    message: "languages must not repeat a language",
+  })
+  @ValidateNested({ each: true })
+  languages: LanguageSchema[];
+
+  @ValidateNested()
+  contact: ContactSchema;
+
+  @ValidateNested({ each: true })
+  education: EducationSchema[];
+
+  @ArrayUnique((work: WorkSchema) => work.company, {
+    message: "work must list each company once, with its positions as roles",
+  })
+  @ValidateNested({ each: true })
+  work: WorkSchema[];
+
+  @ValidateNested({ each: true })
+  certifications: CertificationSchema[];
+
+  @ValidateNested({ each: true })
+  publications: PublicationSchema[];
+
+  @ArrayUnique((group: SkillGroupSchema) => group.name, {
+    message: "skills must not repeat a group name",
+  })
+  @ValidateNested({ each: true })
+  skills: SkillGroupSchema[];
+
+  @ValidateNested({ each: true })
+  projects: ProjectSchema[];
+
+  @ArrayUnique((section: CustomSectionSchema) => section.title, {
+    message: "customSections must have unique titles",
+  })
+  @ValidateNested({ each: true })
+  customSections: CustomSectionSchema[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Validate(KnownSections)
+  layout?: LayoutSchema;
+}
+
+function toInstance<T extends object>(Schema: new () => T, value: object): T {
+  return Object.assign(new Schema(), value);
+}
+
+function toAchievementSchema(achievement: ResumeAchievement) {
+  return toInstance(AchievementSchema, {
+    ...achievement,
+    metric: achievement.metric && toInstance(MetricSchema, achievement.metric),
+  });
+}
+
+/**
+ * class-validator only knows about decorated class instances, so the plain
+ * resume object is rebuilt from the schema classes before validating
+ */
+function toSchema(data: ResumeData): ResumeDataSchema {
+  return toInstance(ResumeDataSchema, {
+    ...data,
+    languages: data.languages.map((language) =>
+      toInstance(LanguageSchema, language)
+    ),
+    contact: toInstance(ContactSchema, {
+      ...data.contact,
+      social: data.contact.social.map((social) =>
+        toInstance(SocialSchema, social)
+      ),
+    }),
+    education: data.education.map((education) =>
+      toInstance(EducationSchema, education)
+    ),
+    work: data.work.map((work) =>
+      toInstance(WorkSchema, {
+        ...work,
+        roles: work.roles.map((role) =>
+          toInstance(WorkRoleSchema, {
+            ...role,
+            achievements: role.achievements?.map(toAchievementSchema),
+          })
+        ),
+      })
+    ),
+    certifications: data.certifications.map((certification) =>
+      toInstance(CertificationSchema, certification)
+    ),
+    publications: data.publications.map((publication) =>
+      toInstance(PublicationSchema, publication)
+    ),
+    skills: data.skills.map((group) =>
+      toInstance(SkillGroupSchema, {
+        ...group,
+        skills: group.skills.map((skill) => toInstance(SkillSchema, skill)),
+      })
+    ),
+    projects: data.projects.map((project) =>
+      toInstance(ProjectSchema, {
+        ...project,
+        link: project.link && toInstance(LinkSchema, project.link),
+        outcomes: project.outcomes?.map(toAchievementSchema),
+      })
+    ),
+    customSections: data.customSections.map((section) =>
+      toInstance(CustomSectionSchema, {
+        ...section,
+        entries: section.entries.map((entry) =>
+          toInstance(CustomEntrySchema, entry)
+        ),
+      })
+    ),
+    layout: data.layout && toInstance(LayoutSchema, data.layout),
+  });
+}
+
+function flattenErrors(
+  errors: ValidationError[],
+  parentPath = ""
+): ResumeValidationIssue[] {
+  return errors.flatMap((error) => {
+    const path = /^\d+$/.test(error.property)
+      ? `${parentPath}[${error.property}]`
+      : parentPath
+        ? `${parentPath}.${error.property}`
+        : error.property;
+
+    return [
+      ...Object.values(error.constraints ?? {}).map((message) => ({
+        path,
+        message,
+      })),
+      ...flattenErrors(error.children ?? [], path),
+    ];
+  });
+}
+
+/**
+ * Checks resume data beyond what the compiler can express (URL, email and
+ * phone formats, date ordering, empty fields, duplicate badges) and returns
+ * every problem found, each with the path of the offending field
+ */
+export function validateResumeData(data: ResumeData): ResumeValidationIssue[] {
+  return flattenErrors(validateSync(toSchema(data)));
+}
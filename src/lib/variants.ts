@@ -0,0 +1,231 @@
+import { DEFAULT_LOCALE, isLocale, LOCALES } from "@/lib/i18n";
+import { resolveResumeOverlay } from "@/lib/overlay";
+import type {
+  Locale,
+  ResumeData,
+  ResumeOverlay,
+  ResumeVariant,
+} from "@/lib/types";
+
+// Webpack's module context, which @types/node does not describe
+interface RequireContext {
+  keys(): string[];
+  (id: string): unknown;
+}
+
+type ContextRequire = NodeJS.Require & {
+  context(
+    directory: string,
+    useSubdirectories: boolean,
+    regExp: RegExp
+  ): RequireContext;
+};
+
+export const DEFAULT_VARIANT_SLUG = "default";
+
+// `acme-resume-data.tsx`, or `acme-resume-data.vi.tsx` for its translation
+const RESUME_DATA_FILE = /resume-data(?:\.([a-z]{2}))?\.tsx$/;
+
+/**
+ * Derives the route slug from a data module file name, e.g.
+ * `./menlo-2025-11-12-resume-data.tsx` becomes `menlo-2025-11-12`
+ */
+export function slugFromModulePath(path: string): string {
+  const name = path
+    .replace(/^.*\//, "")
+    .replace(RESUME_DATA_FILE, "")
+    .replace(/-$/, "");
+
+  return name || DEFAULT_VARIANT_SLUG;
+}
+
+/**
+ * Locale of a translation module, undefined for a variant's own module
+ */
+export function localeFromModulePath(path: string): string | undefined {
+  return path.match(RESUME_DATA_FILE)?.[1];
+}
+
+function isResumeModule(
+  module: unknown
+): module is { RESUME_DATA: ResumeData } {
+  return (
+    typeof module === "object" &&
+    module !== null &&
+    "RESUME_DATA" in module &&
+    typeof module.RESUME_DATA === "object"
+  );
+}
+
+function isTranslationModule(
+  module: unknown
+): module is { RESUME_OVERLAY: ResumeOverlay } {
+  return (
+    typeof module === "object" &&
+    module !== null &&
+    "RESUME_OVERLAY" in module &&
+    typeof module.RESUME_OVERLAY === "object"
+  );
+}
+
+/**
+ * Builds the variants from loaded data modules. Each translation module's
+ * `RESUME_OVERLAY` is applied on top of the variant with the same slug
+ */
+export function assembleVariants(
+  modules: Array<{ path: string; module: unknown }>
+): ResumeVariant[] {
+  const variants = new Map<string, ResumeVariant>();
+
+  for (const { path, module } of modules) {
+    if (localeFromModulePath(path)) continue;
+    if (!isResumeModule(module)) {
+      throw new Error(`Resume data module ${path} must export RESUME_DATA`);
+    }
+    const slug = slugFromModulePath(path);
+    variants.set(slug, {
+      slug,
+      data: module.RESUME_DATA,
+      translations: {},
+      overlays: {},
+    });
+  }
+
+  for (const { path, module } of modules) {
+    const locale = localeFromModulePath(path);
+    if (!locale) continue;
+
+    if (!isLocale(locale) || locale === DEFAULT_LOCALE) {
+      throw new Error(
+        `Translation ${path} must use one of ${LOCALES.filter((item) => item !== DEFAULT_LOCALE).join(", ")}`
+      );
+    }
+    if (!isTranslationModule(module)) {
+      throw new Error(`Translation ${path} must export RESUME_OVERLAY`);
+    }
+    const variant = variants.get(slugFromModulePath(path));
+    if (!variant) {
+      throw new Error(`Translation ${path} has no matching resume data module`);
+    }
+    variant.overlays[locale] = module.RESUME_OVERLAY;
+    variant.translations[locale] = resolveResumeOverlay(
+      variant.data,
+      module.RESUME_OVERLAY
+    );
+  }
+
+  return [...variants.values()].sort((a, b) => {
+    if (a.slug === DEFAULT_VARIANT_SLUG) return -1;
+    if (b.slug === DEFAULT_VARIANT_SLUG) return 1;
+    return a.slug.localeCompare(b.slug);
+  });
+}
+
+/**
+ * Loads every `*resume-data.tsx` module in `src/data` through the bundler,
+ * so adding a file is enough to publish a new variant or translation
+ */
+function loadVariants(): ResumeVariant[] {
+  const context = (require as ContextRequire).context(
+    "../data",
+    false,
+    /resume-data(\.[a-z]{2})?\.tsx$/
+  );
+
+  return assembleVariants(
+    context
+      .keys()
+      .filter((key) => key.startsWith("./"))
+      .map((key) => ({ path: key, module: context(key) }))
+  );
+}
+
+let variants: ResumeVariant[] | undefined;
+
+/**
+ * Returns all registered resume variants, default first
+ */
+export function getVariants(): ResumeVariant[] {
+  variants ??= loadVariants();
+  return variants;
+}
+
+/**
+ * Looks up a variant by slug, returning undefined when it is not registered
+ */
+export function getVariant(slug: string): ResumeVariant | undefined {
+  return getVariants().find((variant) => variant.slug === slug);
+}
+
+/**
+ * Locales a variant is published in, the default locale first
+ */
+export function getVariantLocales(variant: ResumeVariant): Locale[] {
+  return LOCALES.filter(
+    (locale) => locale === DEFAULT_LOCALE || variant.translations[locale]
+  );
+}
+
+/**
+ * Content of a variant in `locale`, undefined when it is not translated
+ */
+export function getLocalizedData(
+  variant: ResumeVariant,
+  locale: Locale
+): ResumeData | undefined {
+  return locale === DEFAULT_LOCALE
+    ? variant.data
+    : variant.translations[locale];
+}
+
+/**
+ * Path of a variant in the default locale, `/` for the default resume
+ */
+export function variantPath(slug: string): string {
+  return slug === DEFAULT_VARIANT_SLUG ? "/" : `/v/${slug}`;
+}
+
+/**
+ * Route params for every variant published under `/v/[slug]`
+ */
+export function getVariantStaticParams(): Array<{ slug: string }> {
+  return getVariants()
+    .filter((variant) => variant.slug !== DEFAULT_VARIANT_SLUG)
+    .map((variant) => ({ slug: variant.slug }));
+}
+
+/**
+ * Route params for every locale the default resume is published in
+ */
+export function getLocaleStaticParams(): Array<{ locale: Locale }> {
+  return getVariantLocales(getDefaultVariant()).map((locale) => ({ locale }));
+}
+
+/**
+ * Route params for every variant under `/[locale]/v/[slug]`, one per locale
+ * the variant is translated into
+ */
+export function getLocalizedVariantStaticParams(): Array<{
+  locale: Locale;
+  slug: string;
+}> {
+  return getVariants()
+    .filter((variant) => variant.slug !== DEFAULT_VARIANT_SLUG)
+    .flatMap((variant) =>
+      getVariantLocales(variant).map((locale) => ({
+        locale,
+        slug: variant.slug,
+      }))
+    );
+}
+
+/**
+ * Returns the variant published at `/`
+ */
+export function getDefaultVariant(): ResumeVariant {
+  const variant = getVariant(DEFAULT_VARIANT_SLUG);
+  if (!variant) {
+    throw new Error("Missing default resume data module (resume-data.tsx)");
+  }
+  return variant;
+}
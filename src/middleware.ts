@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { DEFAULT_LOCALE, isLocale } from "@/lib/i18n";
+
+/**
+ * Serves the default locale without a path prefix: `/v/generic` is rendered
+ * by `/en/v/generic`, and `/en/...` redirects to the unprefixed path so each
+ * page has one URL. Other locales keep their prefix, e.g. `/vi/v/generic`
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const [, segment = ""] = pathname.split("/");
+
+  if (segment === DEFAULT_LOCALE) {
+    const url = request.nextUrl.clone();
+    url.pathname = pathname.slice(DEFAULT_LOCALE.length + 1) || "/";
+    return NextResponse.redirect(url);
+  }
+
+  if (isLocale(segment)) return NextResponse.next();
+
+  const url = request.nextUrl.clone();
+  url.pathname = `/${DEFAULT_LOCALE}${pathname === "/" ? "" : pathname}`;
+  return NextResponse.rewrite(url);
+}
+
+export const config = {
+  // Pages only: API routes, JSON Resume exports and static files have no
+  // locale
+  matcher: ["/((?!api|graphql|_next|.*\\..*).*)"],
+};